@@ -1,9 +1,27 @@
 import './globals.css'
 import type { Metadata, Viewport } from 'next'
+import { PROFILE } from '../lib/profile'
+import { LOCALES } from '../lib/i18n'
+import { SITE_DESCRIPTION, SITE_TITLE, SITE_URL, structuredData } from '../lib/seo'
 
+// Preview images come from opengraph-image.tsx / twitter-image.tsx next to this file
 export const metadata: Metadata = {
-  title: 'Festival Ground',
-  description: 'Interactive festival-ground landing page',
+  metadataBase: new URL(SITE_URL),
+  title: SITE_TITLE,
+  description: SITE_DESCRIPTION,
+  alternates: { canonical: '/' },
+  openGraph: {
+    type: 'profile',
+    url: '/',
+    siteName: PROFILE.name,
+    title: SITE_TITLE,
+    description: SITE_DESCRIPTION,
+  },
+  twitter: {
+    card: 'summary_large_image',
+    title: SITE_TITLE,
+    description: SITE_DESCRIPTION,
+  },
 }
 
 export const viewport: Viewport = {
@@ -12,10 +30,21 @@ export const viewport: Viewport = {
   themeColor: '#0a0a0a',
 }
 
+// "<" is escaped so copy can never close the script tag
+const jsonLd = JSON.stringify(structuredData(Date.now())).replace(/</g, '\\u003c')
+
 export default function RootLayout({ children }: { children: React.ReactNode }) {
   return (
     <html lang="en">
-      <body className="min-h-dvh antialiased">{children}</body>
+      {/* The same exported page in each language (?lang=); written by hand because
+          metadata alternates drop the query string from "/" */}
+      <head>
+        {LOCALES.map((l) => <link key={l} rel="alternate" hrefLang={l} href={new URL(`/?lang=${l}`, SITE_URL).toString()} />)}
+      </head>
+      <body className="min-h-dvh antialiased">
+        <script type="application/ld+json" dangerouslySetInnerHTML={{ __html: jsonLd }} />
+        {children}
+      </body>
     </html>
   )
 }
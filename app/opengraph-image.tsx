@@ -0,0 +1,67 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { ImageResponse } from "next/og";
+import sharp from "sharp";
+import { PROFILE } from "../lib/profile";
+import { SCENE, GROUND_BACKGROUND } from "../lib/scene-manifest";
+import { EVENTS } from "../lib/event-list";
+import { formatEventDate, pickEventFliers, withEventFliers } from "../lib/events";
+import { imageMeta } from "../lib/images";
+
+/** ------------ Link-preview card: the current flier lying on the festival ground ------------ */
+
+export const alt = `${PROFILE.name}: ${PROFILE.role}`;
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+const FLIER_H = 540;
+
+/** A public image as a data URL the renderer can draw; it only reads PNG and JPEG, so anything else becomes a JPEG. */
+async function dataUrl(src: string, width: number) {
+  const file = readFileSync(join(process.cwd(), "public", src));
+  if (/\.(png|jpe?g)$/i.test(src)) return `data:image/${/png$/i.test(src) ? "png" : "jpeg"};base64,${file.toString("base64")}`;
+  const jpeg = await sharp(file).resize({ width }).jpeg({ quality: 85 }).toBuffer();
+  return `data:image/jpeg;base64,${jpeg.toString("base64")}`;
+}
+
+export default async function Image() {
+  const now = Date.now();
+  const flier = withEventFliers(SCENE, EVENTS, now).find((i) => i.focus.type === "flier");
+  const next = pickEventFliers(EVENTS, now).upcoming;
+  const meta = flier ? imageMeta(flier.image) : undefined;
+  const flierW = meta ? Math.round((FLIER_H * meta.w) / meta.h) : 0;
+  const [ground, flierSrc] = await Promise.all([
+    dataUrl(GROUND_BACKGROUND, size.width),
+    flier && meta ? dataUrl(flier.image, flierW * 2) : null,
+  ]);
+
+  return new ImageResponse(
+    (
+      <div style={{ display: "flex", width: "100%", height: "100%", position: "relative", color: "white" }}>
+        <img src={ground} width={size.width} height={size.height} style={{ position: "absolute", left: 0, top: 0, objectFit: "cover" }} />
+        <div style={{ position: "absolute", left: 0, top: 0, width: size.width, height: size.height, display: "flex", backgroundImage: "linear-gradient(90deg, rgba(0,0,0,0.85), rgba(0,0,0,0.35) 65%, rgba(0,0,0,0.1))" }} />
+        <div style={{ display: "flex", flexDirection: "column", justifyContent: "center", padding: "0 64px", width: size.width - flierW - 80 }}>
+          <div style={{ fontSize: 76, lineHeight: 1.05 }}>{PROFILE.name}</div>
+          <div style={{ fontSize: 34, marginTop: 16, opacity: 0.85 }}>{PROFILE.role}</div>
+          {next && (
+            <div style={{ display: "flex", flexDirection: "column", marginTop: 40, fontSize: 26 }}>
+              <div style={{ color: "#fbbf24" }}>Next show</div>
+              <div>{next.title}</div>
+              <div style={{ opacity: 0.8 }}>{`${formatEventDate(next, "en-US")} · ${next.venue}, ${next.city}`}</div>
+            </div>
+          )}
+          <div style={{ fontSize: 24, marginTop: 40, opacity: 0.7 }}>{PROFILE.website.replace(/^https?:\/\/(www\.)?/, "")}</div>
+        </div>
+        {flierSrc && (
+          <img
+            src={flierSrc}
+            width={flierW}
+            height={FLIER_H}
+            style={{ position: "absolute", right: 64, top: (size.height - FLIER_H) / 2, transform: "rotate(4deg)", boxShadow: "0 20px 50px rgba(0,0,0,0.6)" }}
+          />
+        )}
+      </div>
+    ),
+    size
+  );
+}
@@ -1,286 +1,577 @@
 'use client';
 
-import React, { useEffect, useMemo, useState } from "react";
-import { motion, AnimatePresence } from "framer-motion";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import dynamic from "next/dynamic";
+import {
+  motion,
+  AnimatePresence,
+  MotionConfig,
+  animate,
+  motionValue,
+  useMotionValue,
+  useReducedMotion,
+  useTransform,
+  type HTMLMotionProps,
+  type MotionValue,
+  type PanInfo,
+} from "framer-motion";
 import {
-  Instagram,
-  Facebook,
-  X as TwitterX,
-  Youtube,
-  Music2,
   ExternalLink,
   X as CloseX,
-  Lock,
   Rotate3D,
+  Shuffle,
+  CalendarPlus,
+  Ticket,
+  MessageCircle,
+  Box,
+  ShoppingBag,
+  Gift,
+  BarChart3,
+  Volume2,
+  VolumeX,
+  Smartphone,
 } from "lucide-react";
+import { createRng, newSeed } from "../lib/random";
+import {
+  adaptLayoutPx,
+  checkLayoutPx,
+  generateNonOverlappingLayoutPx,
+  layoutPaddingPx,
+  type LayoutReport,
+  type PlacedPx,
+} from "../lib/layout";
+import { GROUND_LAYOUT_OPTS, groundSpecs } from "../lib/ground-layout";
+import { tossStep, type Velocity } from "../lib/toss";
+import { PhoneShell, PhoneImageOnly } from "../components/phone/PhoneShell";
+import { PhoneOS } from "../components/phone/PhoneOS";
+import { PressKitButtons } from "../components/phone/PressKitButtons";
+import { isPhoneScreen, WALLPAPER_SIZES, type PhoneLink, type PhoneNotification, type PhoneScreen } from "../components/phone/types";
+import { blurPlaceholder, imageMeta, preloadImage } from "../lib/images";
+import { formatStoryDate, localizeScene, type SceneItem, type TrashStory } from "../lib/scene";
+import { GROUND_BACKGROUND, SCENE } from "../lib/scene-manifest";
+import { nearestInDirection, readingOrder, type NavDirection, type NavPoint } from "../lib/spatial-nav";
+import { useDialogFocus } from "../components/useDialogFocus";
+import { usePinchZoom } from "../components/usePinchZoom";
+import { eventEnd, eventIcs, formatEventDate, withEventFliers, type ShowEvent } from "../lib/events";
+import { EVENTS } from "../lib/event-list";
+import { downloadBlob } from "../lib/download";
+import { PROFILE } from "../lib/profile";
+import { resolveLink, type SocialLink } from "../lib/links";
+import { LINKS } from "../lib/link-list";
+import { PLATFORM_ICONS } from "../components/phone/LinkBanner";
+import { webglAvailable } from "../components/ground3d/support";
+import { LayoutDebugOverlay } from "../components/LayoutDebugOverlay";
+import { useCleanupGame } from "../components/useCleanupGame";
+import { CleanupHud } from "../components/CleanupHud";
+import { ResponsiveImage } from "../components/ResponsiveImage";
+import { useAnalytics } from "../components/useAnalytics";
+import { AnalyticsConsentPrompt } from "../components/AnalyticsConsent";
+import type { AnalyticsEvent } from "../lib/analytics";
+import { LocaleProvider, useI18n } from "../components/useI18n";
+import { LanguageSwitcher } from "../components/LanguageSwitcher";
+import { useSoundscape } from "../components/useSoundscape";
+import { BACKGROUND_DEPTH, depthForZ, useDepthShift, useParallax, type Tilt } from "../components/useParallax";
+
+// three.js only downloads once someone switches the ground to 3D
+const GroundScene3D = dynamic(() => import("../components/ground3d/GroundScene3D"), { ssr: false });
 
 /** ------------ Types ------------ */
+type FlierSide = "front" | "back";
+
 type Focus =
   | { type: "null" }
-  | { type: "flier" }
-  | { type: "phone" }
-  | { type: "trash"; url: string; id: string; rot: number };
+  | { type: "flier"; id: string; side: FlierSide }
+  | { type: "phone"; id: string; screen: PhoneScreen }
+  | { type: "trash"; id: string };
 
 type TrashFocusType = Extract<Focus, { type: "trash" }>;
 const isTrash = (f: Focus): f is TrashFocusType => f.type === "trash";
 
 /** ------------ Image URLs (local) ------------ */
-const BACKGROUND_URL = "/images/festival-ground.jpg";
-const FLIER_URL = "/images/trey_flyer.webp";
-const FLIER_BACK_URL = "/images/trey_flyerback.webp";
-const PHONE_IDLE_URL = "/images/phone_idle.jpg";
 const LOCK_WALLPAPER_URL = "/images/lock_wallpaper_1080x2400.webp";
 
-const DINO_TRASH_URL = "/images/dinobracelet.png";
-const BOTTLE_TRASH_URL = "/images/waterbottle.png";
-const CUP_TRASH_URL = "/images/cup.png";
-const BAND_TRASH_URL = "/images/wristband.png";
-const FLIPFLOP_TRASH_URL = "/images/flipflop.png";
-const GLOWSTICK_TRASH_URL = "/images/glowstick.png";
-const KEYS_TRASH_URL = "/images/keys.png";
-const LIGHTER_TRASH_URL = "/images/lighter.png";
-const VAPE_TRASH_URL = "/images/vape.png";
-
-const NOTIF1_URL = "/images/bezos.png";
-const NOTIF2_URL = "/images/metallica.png";
-const LINK_FACEBOOK_IMG  = "/images/facebooklink.png";
-const LINK_INSTAGRAM_IMG = "/images/instagramlink.png";
-const LINK_WEBSITE_IMG   = "/images/websitelink.png";
-
-/** ------------ Random helpers ------------ */
-const randNorm = () => {
-  // Gaussian via Box–Muller
-  let u = 0, v = 0;
-  while (u === 0) u = Math.random();
-  while (v === 0) v = Math.random();
-  return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
-};
+/** ------------ Lock-screen notifications ------------ */
+// Both pictures are message screenshots with the sender's round photo on the left
+const SCREENSHOT_AVATAR = [0.044, 0.09, 0.24, 0.863] as const;
+
+const LOCK_NOTIFICATIONS: PhoneNotification[] = [
+  {
+    id: "msg-jeffy",
+    app: "Messages",
+    appIcon: MessageCircle,
+    appTint: "bg-emerald-600",
+    title: "Jeffy Bizzle",
+    body: "Dude those photos came out amazing! Worth every penny…",
+    minutesAgo: 2,
+    avatar: { src: "/images/bezos.png", crop: SCREENSHOT_AVATAR },
+  },
+  {
+    id: "msg-metallica",
+    app: "Messages",
+    appIcon: MessageCircle,
+    appTint: "bg-emerald-600",
+    title: "Metallica Guy",
+    body: "GIMMEFUEGIMMEFYGIMMEDABAJABAZAH!",
+    minutesAgo: 17,
+    avatar: { src: "/images/metallica.png", crop: SCREENSHOT_AVATAR },
+  },
+];
+
+const RESIZE_DEBOUNCE_MS = 150;
+
+type Layout = { placed: PlacedPx[]; report: LayoutReport | null };
+
+const NONE: readonly string[] = [];
+
+/** ?debug=<name> switches on a developer overlay; read once on load. */
+function useDebugFlag(name: string) {
+  const [on, setOn] = useState(false);
+  useEffect(() => {
+    setOn(new URLSearchParams(window.location.search).getAll("debug").includes(name));
+  }, [name]);
+  return on;
+}
 
-/** ------------ Layout (pixel-accurate, no-overlap, fully on-screen) ------------ */
-type Spec = {
-  id: string;
-  radiusPx: number;
-  rotRange: readonly [number, number];
-  fixedWidthPx?: number;
-  boundsOverride?: { marginXPct?: number; marginYPct?: number; visibleFrac?: number };
-  preferCenter?: boolean;
-};
-type PlacedPx = { id: string; cx: number; cy: number; rot: number; radiusPx: number; widthPx: number };
-
-/** Resolve overlaps with an iterative relaxation step. preferMap makes favored items move less. */
-function relaxLayout(
-  placed: PlacedPx[],
-  bounds: { minX: number; maxX: number; minY: number; maxY: number },
-  paddingPx: number,
-  maxIters: number,
-  preferMap: Record<string, boolean>
-) {
-  const jitter = 0.25;
-  for (let iter = 0; iter < maxIters; iter++) {
-    let moved = false;
+/** Convert PX layout to CSS style (centered via GroundItem's transformTemplate) */
+const toStyleCenter = (p: PlacedPx): React.CSSProperties => ({
+  position: "absolute",
+  left: `${p.cx}px`,
+  top: `${p.cy}px`,
+  width: `${p.widthPx}px`,
+});
+
+/** Keeps the -50% centering when framer builds the transform from x/y/scale. */
+const centerTransform = (_: unknown, generated: string) => `translate(-50%, -50%) ${generated}`;
+
+/** `sizes` for an object-cover image in a boxW × boxH box drawn at `scale`: how wide its pixels end up on screen. */
+function coverSizes(src: string, boxW: number, boxH: number, scale = 1) {
+  const m = imageMeta(src);
+  const k = m ? Math.max(boxW / m.w, boxH / m.h) : 0;
+  return `${Math.ceil(m ? m.w * k * scale : boxW * scale)}px`;
+}
+
+/** ------------ Layout seed (shareable via ?seed=) ------------ */
+function writeSeedToUrl(seed: string) {
+  const url = new URL(window.location.href);
+  url.searchParams.set("seed", seed);
+  window.history.replaceState(window.history.state, "", url);
+}
+
+/** Reads ?seed= on mount (or mints one) and keeps the URL in sync on reshuffle. */
+function useLayoutSeed() {
+  const [seed, setSeed] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fromUrl = new URLSearchParams(window.location.search).get("seed");
+    const initial = fromUrl || newSeed();
+    if (!fromUrl) writeSeedToUrl(initial);
+    setSeed(initial);
+  }, []);
+
+  const reshuffle = React.useCallback(() => {
+    const next = newSeed();
+    writeSeedToUrl(next);
+    setSeed(next);
+  }, []);
+
+  return { seed, reshuffle };
+}
+
+/** ------------ Focus ↔ URL (?focus=<item id>, plus &side=back or &screen=<phone screen>) ------------ */
+const FOCUS_PARAMS = ["focus", "side", "screen"];
+const OVERLAY_ENTRY = "tsgOverlay"; // marks history entries we pushed when opening an overlay
+
+/** Unknown ids fall back to the bare ground, unknown phone screens to the lock screen. */
+function focusFromUrl(search: string, byId: Record<string, SceneItem>): Focus {
+  const q = new URLSearchParams(search);
+  const item = byId[q.get("focus") ?? ""];
+  if (!item) return { type: "null" };
+  switch (item.focus.type) {
+    case "flier": return { type: "flier", id: item.id, side: q.get("side") === "back" ? "back" : "front" };
+    case "trash": return { type: "trash", id: item.id };
+    case "phone": {
+      const screen = q.get("screen") ?? "";
+      return { type: "phone", id: item.id, screen: isPhoneScreen(screen) ? screen : "lock" };
+    }
+  }
+}
 
-    for (let i = 0; i < placed.length; i++) {
-      for (let j = i + 1; j < placed.length; j++) {
-        const a = placed[i];
-        const b = placed[j];
-        const dx = b.cx - a.cx;
-        const dy = b.cy - a.cy;
-        const dist = Math.hypot(dx, dy) || 1e-6;
-        const minDist = a.radiusPx + b.radiusPx + paddingPx;
-
-        if (dist < minDist) {
-          const overlap = (minDist - dist);
-          const ux = dx / dist;
-          const uy = dy / dist;
-
-          // Favor center-preferred elements (move them less)
-          const aFav = !!preferMap[a.id];
-          const bFav = !!preferMap[b.id];
-          let moveA = 0.5;
-          if (aFav && !bFav) moveA = 0.35;
-          else if (!aFav && bFav) moveA = 0.65;
-
-          const push = overlap + 0.25; // small extra to avoid re-colliding
-          a.cx -= ux * push * moveA;
-          a.cy -= uy * push * moveA;
-          b.cx += ux * push * (1 - moveA);
-          b.cy += uy * push * (1 - moveA);
-
-          // jitter to avoid stalemates
-          a.cx += (Math.random() - 0.5) * jitter;
-          a.cy += (Math.random() - 0.5) * jitter;
-          b.cx += (Math.random() - 0.5) * jitter;
-          b.cy += (Math.random() - 0.5) * jitter;
-
-          moved = true;
-        }
+/** Current URL with the focus params swapped for `focus` (other params like ?seed= are kept). */
+function focusUrl(focus: Focus) {
+  const url = new URL(window.location.href);
+  FOCUS_PARAMS.forEach((k) => url.searchParams.delete(k));
+  if (focus.type !== "null") url.searchParams.set("focus", focus.id);
+  if (focus.type === "flier" && focus.side === "back") url.searchParams.set("side", "back");
+  if (focus.type === "phone" && focus.screen !== "lock") url.searchParams.set("screen", focus.screen);
+  return url;
+}
+
+/**
+ * Focus state that lives in the URL. Opening an overlay pushes one history entry and
+ * changes inside it (flip, phone screens) replace that entry, so Back always closes it.
+ * Closing pops the entry we pushed; a deep-linked overlay has none, so it's replaced.
+ */
+function useFocusHistory(byId: Record<string, SceneItem>) {
+  const [focus, setFocusState] = useState<Focus>({ type: "null" });
+  const current = useRef(focus);
+  current.current = focus;
+
+  useEffect(() => {
+    const sync = () => setFocusState(focusFromUrl(window.location.search, byId));
+    sync();
+    window.addEventListener("popstate", sync);
+    return () => window.removeEventListener("popstate", sync);
+  }, [byId]);
+
+  const setFocus = React.useCallback((next: Focus) => {
+    const h = window.history;
+    if (current.current.type === "null" && next.type !== "null") {
+      h.pushState({ ...h.state, [OVERLAY_ENTRY]: true }, "", focusUrl(next));
+    } else if (next.type === "null" && h.state?.[OVERLAY_ENTRY]) {
+      h.back(); // popstate syncs the rest
+    } else {
+      h.replaceState(h.state, "", focusUrl(next));
+    }
+    current.current = next;
+    setFocusState(next);
+  }, []);
+
+  return { focus, setFocus };
+}
+
+/** ------------ Focus analytics (opens, dwell time, flips and phone screens, read off focus changes) ------------ */
+function useFocusAnalytics(focus: Focus, track: (e: AnalyticsEvent) => void) {
+  const prev = useRef<Focus>({ type: "null" });
+  const openedAt = useRef(0);
+
+  useEffect(() => {
+    const was = prev.current;
+    prev.current = focus;
+    const wasId = was.type === "null" ? null : was.id;
+    const id = focus.type === "null" ? null : focus.id;
+
+    if (wasId !== id) {
+      if (wasId) track({ type: "dwell", item: wasId, ms: Date.now() - openedAt.current });
+      if (focus.type !== "null") {
+        openedAt.current = Date.now();
+        track({ type: "item_open", item: focus.id, kind: focus.type });
       }
+    } else if (focus.type === "flier" && was.type === "flier" && focus.side !== was.side) {
+      track({ type: "flip", item: focus.id, side: focus.side });
+    } else if (focus.type === "phone" && was.type === "phone" && focus.screen !== was.screen) {
+      track({ type: "phone_screen", screen: focus.screen });
     }
+  }, [focus, track]);
 
-    // clamp to bounds
-    for (const p of placed) {
-      p.cx = Math.max(bounds.minX, Math.min(bounds.maxX, p.cx));
-      p.cy = Math.max(bounds.minY, Math.min(bounds.maxY, p.cy));
+  // Leaving with an overlay open still counts its time
+  useEffect(() => {
+    const onHide = () => {
+      const f = prev.current;
+      if (f.type !== "null") track({ type: "dwell", item: f.id, ms: Date.now() - openedAt.current });
+    };
+    window.addEventListener("pagehide", onHide);
+    return () => window.removeEventListener("pagehide", onHide);
+  }, [track]);
+}
+
+/** ------------ Scene mode (DOM or WebGL ground, remembered per browser) ------------ */
+type SceneMode = "dom" | "3d";
+const SCENE_MODE_KEY = "tsg:scene-mode";
+
+/** The 3D ground is opt-in, and only offered where a WebGL context can be created. */
+function useSceneMode() {
+  const [webgl, setWebgl] = useState(false);
+  const [mode, setModeState] = useState<SceneMode>("dom");
+
+  useEffect(() => {
+    const ok = webglAvailable();
+    setWebgl(ok);
+    try {
+      if (ok && window.localStorage.getItem(SCENE_MODE_KEY) === "3d") setModeState("3d");
+    } catch {
+      // storage disabled: start on the DOM ground
     }
+  }, []);
+
+  const setMode = React.useCallback((next: SceneMode) => {
+    setModeState(next);
+    try {
+      window.localStorage.setItem(SCENE_MODE_KEY, next);
+    } catch {
+      // the choice just won't survive a reload
+    }
+  }, []);
 
-    if (!moved) break;
+  // Context lost or the scene failed to render: back to the DOM ground for this visit
+  const fallBack = React.useCallback(() => {
+    setWebgl(false);
+    setModeState("dom");
+  }, []);
+
+  return { mode: webgl ? mode : "dom", webgl, setMode, fallBack };
+}
+
+/** ------------ Drag + toss (offsets on top of the layout, persisted per viewport bucket) ------------ */
+const POSITIONS_KEY = "tsg:ground-positions:v1";
+const MAX_TOSS_SPEED = 3000; // px/s
+const MAX_SETTLE_FRAMES = 120; // give up separating jammed items after ~2s
+
+/** Viewports within ~100px of each other share saved positions. */
+const viewportBucket = (w: number, h: number) => `${Math.round(w / 100) * 100}x${Math.round(h / 100) * 100}`;
+
+/** bucket → id → center as fractions of the viewport */
+type SavedPositions = Record<string, Record<string, [number, number]>>;
+
+function readPositions(): SavedPositions {
+  try {
+    const saved: unknown = JSON.parse(window.localStorage.getItem(POSITIONS_KEY) ?? "{}");
+    // Anything but a plain object (e.g. a stored "null") is as good as nothing saved
+    return saved && typeof saved === "object" && !Array.isArray(saved) ? (saved as SavedPositions) : {};
+  } catch {
+    return {};
   }
 }
 
-/** Place items with visibility bounds, optional center-bias, and relax to remove overlaps. */
-function generateNonOverlappingLayoutPx(
-  specs: Spec[],
-  vw: number,
-  vh: number,
-  opts?: { marginXPct?: number; marginYPct?: number; paddingPx?: number }
-): PlacedPx[] {
-  // Mobile-aware visibility: keep at least 60% on screen, bump to 85% on small viewports
-  const smallViewport = Math.min(vw, vh) < 700;
-  const defaultVisibleFrac = smallViewport ? 0.85 : 0.6;
-
-  // Base margins (percent), but enforce zero on small viewports
-  const baseMarginXPx = (opts?.marginXPct ?? 6) / 100 * vw;
-  const baseMarginYPx = (opts?.marginYPct ?? 8) / 100 * vh;
-  const marginXPx = smallViewport ? 0 : Math.max(baseMarginXPx, 12);
-  const marginYPx = smallViewport ? 0 : Math.max(baseMarginYPx, 12);
-
-  // Separation padding
-  const requestedPad = opts?.paddingPx ?? 16;
-  const padPx = Math.max(requestedPad, smallViewport ? 48 : 40);
-
-  // Prefer-center items should be placed first, then by size
-  const ordered = [...specs].sort((a, b) => {
-    const ac = a.preferCenter ? 1 : 0;
-    const bc = b.preferCenter ? 1 : 0;
-    if (ac !== bc) return bc - ac ? -1 : 1; // ensure preferCenter first
-    return b.radiusPx - a.radiusPx;
-  });
+function writePositions(all: SavedPositions) {
+  try {
+    window.localStorage.setItem(POSITIONS_KEY, JSON.stringify(all));
+  } catch {
+    // storage full or disabled: positions just won't survive a reload
+  }
+}
+
+type ItemOffset = { x: MotionValue<number>; y: MotionValue<number> };
+
+const clampSpeed = ({ x, y }: { x: number; y: number }): Velocity => {
+  const k = Math.min(1, MAX_TOSS_SPEED / (Math.hypot(x, y) || 1));
+  return { vx: x * k, vy: y * k };
+};
+
+/**
+ * Items keep their layout spot (left/top) and move by x/y motion values on top,
+ * so dragging never re-renders React. A rAF loop runs tossStep while anything moves.
+ * Bagged trash (`pickedUp`) keeps its saved spot but isn't in the simulation, so nothing bumps into it.
+ * Bumps keep the gap the layout settled with (`paddingPx`, smaller when a crowded scene was shrunk to fit).
+ */
+function useGroundPhysics(
+  placed: PlacedPx[] | null,
+  viewport: { w: number; h: number } | null,
+  paddingPx: number | null,
+  pickedUp: readonly string[]
+) {
+  const offsets = useRef<Record<string, ItemOffset>>({});
+  const vel = useRef(new Map<string, Velocity>());
+  const pinned = useRef<string | null>(null);
+  const frame = useRef<number | null>(null);
+  const latest = useRef({ placed, viewport, paddingPx, pickedUp });
+  latest.current = { placed, viewport, paddingPx, pickedUp };
+
+  const offsetFor = React.useCallback((id: string) => {
+    return (offsets.current[id] ??= { x: motionValue(0), y: motionValue(0) });
+  }, []);
 
-  // Bounds calculator allowing per-item overrides
-  const calcBounds = (R: number, s: Spec) => {
-    const mx = smallViewport ? 0 : (s.boundsOverride?.marginXPct != null ? (s.boundsOverride.marginXPct / 100) * vw : marginXPx);
-    const my = smallViewport ? 0 : (s.boundsOverride?.marginYPct != null ? (s.boundsOverride.marginYPct / 100) * vh : marginYPx);
-    const vf = s.boundsOverride?.visibleFrac ?? defaultVisibleFrac;
-    return {
-      minX: mx + R * vf,
-      maxX: vw - mx - R * vf,
-      minY: my + R * vf,
-      maxY: vh - my - R * vf,
-      vf,
+  const save = React.useCallback(() => {
+    const { placed, viewport } = latest.current;
+    if (!placed || !viewport) return;
+    const moved: Record<string, [number, number]> = {};
+    for (const p of placed) {
+      const o = offsetFor(p.id);
+      if (Math.abs(o.x.get()) < 0.5 && Math.abs(o.y.get()) < 0.5) continue;
+      moved[p.id] = [(p.cx + o.x.get()) / viewport.w, (p.cy + o.y.get()) / viewport.h];
+    }
+    const all = readPositions();
+    all[viewportBucket(viewport.w, viewport.h)] = moved;
+    writePositions(all);
+  }, [offsetFor]);
+
+  const run = React.useCallback(() => {
+    if (frame.current != null) return;
+    let last = performance.now();
+    let settleFrames = 0;
+
+    const tick = (now: number) => {
+      const { placed, viewport, paddingPx, pickedUp } = latest.current;
+      if (!placed || !viewport) { frame.current = null; return; }
+      const dt = Math.min(0.032, (now - last) / 1000);
+      last = now;
+
+      const onGround = placed.filter((p) => !pickedUp.includes(p.id));
+      for (const id of pickedUp) vel.current.delete(id); // went into the bag mid-slide
+      const bodies = onGround.map((p) => {
+        const o = offsetFor(p.id);
+        return { ...p, cx: p.cx + o.x.get(), cy: p.cy + o.y.get() };
+      });
+      const active = tossStep(
+        { bodies, vel: vel.current, pinned: pinned.current },
+        dt, viewport.w, viewport.h, paddingPx ?? layoutPaddingPx(viewport.w, viewport.h, GROUND_LAYOUT_OPTS.paddingPx)
+      );
+      bodies.forEach((b, i) => {
+        if (b.id === pinned.current) return; // framer's drag owns the held item
+        const o = offsetFor(b.id);
+        o.x.set(b.cx - onGround[i].cx);
+        o.y.set(b.cy - onGround[i].cy);
+      });
+
+      settleFrames = vel.current.size || pinned.current ? 0 : settleFrames + 1;
+      if (active && settleFrames < MAX_SETTLE_FRAMES) {
+        frame.current = requestAnimationFrame(tick);
+      } else {
+        frame.current = null;
+        save();
+      }
     };
-  };
+    frame.current = requestAnimationFrame(tick);
+  }, [offsetFor, save]);
 
-  // Initial placement with optional center bias
-  const placed: PlacedPx[] = ordered.map((s) => {
-    const R = s.radiusPx;
-    const b = calcBounds(R, s);
-    let cx: number, cy: number;
-
-    if (s.preferCenter && Math.random() < 0.8) {
-      const sigmaX = (b.maxX - b.minX) * 0.2;
-      const sigmaY = (b.maxY - b.minY) * 0.2;
-      cx = vw / 2 + randNorm() * sigmaX;
-      cy = vh / 2 + randNorm() * sigmaY;
-      cx = Math.min(b.maxX, Math.max(b.minX, cx));
-      cy = Math.min(b.maxY, Math.max(b.minY, cy));
-    } else {
-      cx = Math.min(b.maxX, Math.max(b.minX, Math.random() * (b.maxX - b.minX) + b.minX));
-      cy = Math.min(b.maxY, Math.max(b.minY, Math.random() * (b.maxY - b.minY) + b.minY));
+  // New layout: restore this bucket's saved spots, then settle. After a resize, items
+  // without a saved spot keep their drag offset, scaled with the viewport.
+  const laidOutFor = useRef(viewport);
+  useEffect(() => {
+    if (!placed || !viewport) return;
+    const saved = readPositions()[viewportBucket(viewport.w, viewport.h)] ?? {};
+    const prev = laidOutFor.current;
+    const resized = !!prev && prev !== viewport;
+    laidOutFor.current = viewport;
+    vel.current.clear();
+    let moved = false;
+    for (const p of placed) {
+      const o = offsetFor(p.id);
+      const s = saved[p.id];
+      o.x.set(s ? s[0] * viewport.w - p.cx : resized ? (o.x.get() * viewport.w) / prev.w : 0);
+      o.y.set(s ? s[1] * viewport.h - p.cy : resized ? (o.y.get() * viewport.h) / prev.h : 0);
+      moved ||= Math.abs(o.x.get()) >= 0.5 || Math.abs(o.y.get()) >= 0.5;
     }
+    if (moved) run();
+  }, [placed, viewport, offsetFor, run]);
 
-    const rot = Math.random() * (s.rotRange[1] - s.rotRange[0]) + s.rotRange[0];
-    return { id: s.id, cx, cy, rot, radiusPx: R, widthPx: s.fixedWidthPx ?? (R * 2) };
-  });
+  useEffect(() => () => { if (frame.current != null) cancelAnimationFrame(frame.current); }, []);
 
-  // Preference map for relax
-  const preferMap: Record<string, boolean> = {};
-  for (const s of specs) preferMap[s.id] = !!s.preferCenter;
-
-  // Global bounds to keep relaxation within safe region
-  const perBounds = ordered.map((s) => calcBounds(s.radiusPx, s));
-  const globalBounds = {
-    minX: Math.min(...perBounds.map(b => b.minX)),
-    maxX: Math.max(...perBounds.map(b => b.maxX)),
-    minY: Math.min(...perBounds.map(b => b.minY)),
-    maxY: Math.max(...perBounds.map(b => b.maxY)),
-  };
+  const onDragStart = React.useCallback((id: string) => {
+    pinned.current = id;
+    vel.current.set(id, { vx: 0, vy: 0 });
+    run();
+  }, [run]);
 
-  // Relax to remove overlaps; center-favored items move less
-  relaxLayout(placed, globalBounds, padPx, smallViewport ? 900 : 700, preferMap);
+  const onDrag = React.useCallback((id: string, info: PanInfo) => {
+    vel.current.set(id, clampSpeed(info.velocity));
+  }, []);
 
-  // Final per-item clamp
-  for (let i = 0; i < placed.length; i++) {
-    const p = placed[i];
-    const b = calcBounds(p.radiusPx, ordered[i]);
-    p.cx = Math.max(b.minX, Math.min(b.maxX, p.cx));
-    p.cy = Math.max(b.minY, Math.min(b.maxY, p.cy));
-  }
+  const onDragEnd = React.useCallback((id: string, info: PanInfo) => {
+    pinned.current = null;
+    vel.current.set(id, clampSpeed(info.velocity));
+    run();
+  }, [run]);
 
-  return placed;
+  /** Drop every saved arrangement (e.g. on reshuffle). */
+  const forget = React.useCallback(() => writePositions({}), []);
+
+  return { offsetFor, onDragStart, onDrag, onDragEnd, forget };
 }
 
-/** Convert PX layout to CSS style (centered) */
-const toStyleCenter = (p: PlacedPx): React.CSSProperties => ({
-  position: "absolute",
-  left: `${p.cx}px`,
-  top: `${p.cy}px`,
-  width: `${p.widthPx}px`,
-  transform: "translate(-50%, -50%)",
-});
+/** ------------ Keyboard: one tab stop for the ground, arrow keys move between items by position ------------ */
+const ARROW_KEYS: Record<string, NavDirection> = { ArrowLeft: "left", ArrowRight: "right", ArrowUp: "up", ArrowDown: "down" };
+
+/**
+ * Roving tabindex over the ground items. Positions include drag offsets, so the arrows
+ * follow what's on screen; Home / End jump to the first / last item in reading order.
+ */
+function useGroundKeyboard(placed: PlacedPx[] | null, viewport: { w: number; h: number } | null, offsetFor: (id: string) => ItemOffset) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  const points = React.useCallback((): NavPoint[] => (placed ?? []).map((p) => {
+    const o = offsetFor(p.id);
+    return { id: p.id, x: p.cx + o.x.get(), y: p.cy + o.y.get() };
+  }), [placed, offsetFor]);
+
+  const rowPx = (viewport?.h ?? 0) / 6;
+
+  // Until something gets focus, Tab lands on the top-left item
+  const tabbableId = useMemo(() => {
+    if (activeId && placed?.some((p) => p.id === activeId)) return activeId;
+    return readingOrder(points(), rowPx)[0]?.id ?? null;
+  }, [activeId, placed, points, rowPx]);
+
+  const focusItem = React.useCallback((id: string) => {
+    ref.current?.querySelector<HTMLElement>(`[data-ground-id="${id}"]`)?.focus({ preventScroll: true });
+  }, []);
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    const id = (e.target as HTMLElement).dataset.groundId;
+    if (!id) return;
+    const all = points();
+    let next: string | null = null;
+    if (ARROW_KEYS[e.key]) {
+      const from = all.find((p) => p.id === id);
+      next = from ? nearestInDirection(from, all, ARROW_KEYS[e.key]) : null;
+    } else if (e.key === "Home" || e.key === "End") {
+      const order = readingOrder(all, rowPx);
+      next = (e.key === "Home" ? order[0] : order[order.length - 1])?.id ?? null;
+    } else {
+      return;
+    }
+    e.preventDefault();
+    if (next) focusItem(next);
+  };
+
+  return { ref, tabbableId, onItemFocus: setActiveId, onKeyDown, focusItem };
+}
 
 /** ------------ Main Page ------------ */
 export default function Page() {
-  React.useEffect(() => { document.title = 'Trey Green - EPK'; }, []);
+  // Picked in the browser, so the ground moves on to the next show without a rebuild
+  const scene = useMemo(() => withEventFliers(SCENE, EVENTS, Date.now()), []);
   return (
-    <FestivalGroundSite
-      backgroundUrl={BACKGROUND_URL}
-      flierImageUrl={FLIER_URL}
-      flierBackUrl={FLIER_BACK_URL}
-      phoneIdleImageUrl={PHONE_IDLE_URL}
-      lockWallpaperUrl={LOCK_WALLPAPER_URL}
-      socials={{ instagram: "https://instagram.com/tsgphotog", facebook: "https://www.facebook.com/profile.php?id=61578343060127", website: "https://www.tsgphotog.com" }}
-    />
+    <LocaleProvider>
+      <FestivalGroundSite
+        backgroundUrl={GROUND_BACKGROUND}
+        scene={scene}
+        lockWallpaperUrl={LOCK_WALLPAPER_URL}
+        socials={LINKS}
+      />
+    </LocaleProvider>
   );
 }
 
 function FestivalGroundSite({
   backgroundUrl,
-  flierImageUrl,
-  flierBackUrl,
-  phoneIdleImageUrl,
+  scene = SCENE,
   lockWallpaperUrl,
   socials,
 }: {
   backgroundUrl?: string;
-  flierImageUrl?: string;
-  flierBackUrl?: string;
-  phoneIdleImageUrl?: string;
+  scene?: readonly SceneItem[];
   lockWallpaperUrl?: string;
-  socials?: Partial<{
-    instagram: string; facebook: string; x: string; youtube: string; spotify: string; linktree: string; tiktok: string; website: string;
-  }>;
+  /** In display order; see lib/link-list.ts */
+  socials?: readonly SocialLink[];
 }) {
-  const [focus, setFocus] = useState<Focus>({ type: "null" });
   const [viewport, setViewport] = useState<{ w: number; h: number } | null>(null);
+  const { seed, reshuffle } = useLayoutSeed();
 
   useEffect(() => {
+    let timer: number | undefined;
+    const read = () => {
+      const vv = window.visualViewport;
+      const w = vv?.width ?? window.innerWidth;
+      const h = vv?.height ?? window.innerHeight;
+      setViewport((prev) => (prev && prev.w === w && prev.h === h ? prev : { w, h }));
+    };
+    // A rotation or the URL bar sliding fires a burst of events; lay out once it's over
     const set = () => {
-      const vv = (window as any).visualViewport;
-      setViewport({ w: vv?.width ?? window.innerWidth, h: vv?.height ?? window.innerHeight });
+      window.clearTimeout(timer);
+      timer = window.setTimeout(read, RESIZE_DEBOUNCE_MS);
     };
-    set();
+    read();
     window.addEventListener("resize", set);
-    if ((window as any).visualViewport) (window as any).visualViewport.addEventListener("resize", set);
+    window.visualViewport?.addEventListener("resize", set);
     return () => {
+      window.clearTimeout(timer);
       window.removeEventListener("resize", set);
-      if ((window as any).visualViewport) (window as any).visualViewport.removeEventListener("resize", set);
+      window.visualViewport?.removeEventListener("resize", set);
     };
   }, []);
 
   const bg = backgroundUrl || "https://images.unsplash.com/photo-1561998338-13b6aa2e60ef?q=80&w=1920&auto=format&fit=crop";
-  const flier = flierImageUrl || FLIER_URL;
-  const flierBack = flierBackUrl || FLIER_BACK_URL;
-  const phoneIdle = phoneIdleImageUrl || PHONE_IDLE_URL;
   const wallpaper = lockWallpaperUrl || LOCK_WALLPAPER_URL;
 
   // Background scale (phones zoom out to 0.5)
@@ -290,85 +581,144 @@ function FestivalGroundSite({
     return ref < 700 ? 0.5 : 1;
   }, [viewport]);
 
-  const links = useMemo(() => {
-    const L: { label: string; href: string; icon: React.ElementType }[] = [];
-    if (socials?.instagram) L.push({ label: "Instagram", href: socials.instagram, icon: Instagram });
-    if (socials?.facebook) L.push({ label: "Facebook", href: socials.facebook, icon: Facebook });
-    if (socials?.x) L.push({ label: "X / Twitter", href: socials.x, icon: TwitterX });
-    if (socials?.youtube) L.push({ label: "YouTube", href: socials.youtube, icon: Youtube });
-    if (socials?.spotify) L.push({ label: "Spotify", href: socials.spotify, icon: Music2 });
-    if (socials?.tiktok) L.push({ label: "TikTok", href: socials.tiktok, icon: ExternalLink });
-    if (socials?.linktree) L.push({ label: "Linktree", href: socials.linktree, icon: ExternalLink });
-    if (socials?.website) L.push({ label: "Website", href: socials.website, icon: ExternalLink });
-    if (L.length === 0) L.push(
-      { label: "Instagram", href: "https://instagram.com/tsgphotog", icon: Instagram },
-      { label: "Facebook", href: "https://www.facebook.com/profile.php?id=61578343060127", icon: Facebook },
-      { label: "Website", href: "https://www.tsgphotog.com", icon: ExternalLink }
-    );
-    return L;
-  }, [socials]);
+  const links = useMemo(
+    () => (socials ?? LINKS).map((l): PhoneLink => ({ ...resolveLink(l), icon: PLATFORM_ICONS[l.platform] })),
+    [socials]
+  );
 
-  const placed = useMemo(() => {
-    if (!viewport) return null;
-    const base = 1200;                     // design reference
-    const ref = Math.min(viewport.w, viewport.h);
-    const raw = ref / base;
-    const minScale = 0.7;
-    const maxScale = 1.2;
-    let scale = Math.min(maxScale, Math.max(minScale, raw));  // clamp
-    // Phones: shrink everything by 50%
-    if (ref < 700) scale *= 0.5;
-    const W = (designPx: number) => Math.max(40, Math.round(designPx * scale)); // keep a minimum
-
-    // Design widths (keep your proportions)
-    const SIZES = {
-      flier: 480,               // 75% of previous doubled size
-      phone: 168,               // 75% bigger than the original 96
-      dino: 160,
-      band: 190,
-      cup: Math.round(190 * 1.25),      // slightly bigger cup
-      bottle: Math.round(0.18 * base),  // 75% of doubled earlier
-      flipflop: 440,            // +120% from 200
-      glowstick: 160,
-      keys: 180,
-      lighter: 150,
-      vape: 150,
-    } as const;
-
-    const specs: Spec[] = [
-      { id: "flier",         radiusPx: W(SIZES.flier)  / 2, rotRange: [-60, 60], fixedWidthPx: W(SIZES.flier), boundsOverride: { marginXPct: 1.5, marginYPct: 2 }, preferCenter: true },
-      { id: "phone",         radiusPx: W(SIZES.phone)  / 2, rotRange: [-75, 75], fixedWidthPx: W(SIZES.phone), preferCenter: true },
-      { id: "trash-dino",    radiusPx: W(SIZES.dino)   / 2, rotRange: [-25, 25], fixedWidthPx: W(SIZES.dino) },
-      { id: "trash-band",    radiusPx: W(SIZES.band)   / 2, rotRange: [-25, 25], fixedWidthPx: W(SIZES.band) },
-      { id: "trash-cup",     radiusPx: W(SIZES.cup)    / 2, rotRange: [-25, 25], fixedWidthPx: W(SIZES.cup) },
-      { id: "trash-bottle",  radiusPx: W(SIZES.bottle) / 2, rotRange: [-25, 25], fixedWidthPx: W(SIZES.bottle) },
-      { id: "trash-flipflop",radiusPx: W(SIZES.flipflop)/ 2, rotRange: [-25, 25], fixedWidthPx: W(SIZES.flipflop) },
-      { id: "trash-glowstick",radiusPx: W(SIZES.glowstick)/ 2, rotRange: [-25, 25], fixedWidthPx: W(SIZES.glowstick) },
-      { id: "trash-keys",    radiusPx: W(SIZES.keys)   / 2, rotRange: [-25, 25], fixedWidthPx: W(SIZES.keys) },
-      { id: "trash-lighter", radiusPx: W(SIZES.lighter)/ 2, rotRange: [-25, 25], fixedWidthPx: W(SIZES.lighter) },
-      { id: "trash-vape",    radiusPx: W(SIZES.vape)   / 2, rotRange: [-25, 25], fixedWidthPx: W(SIZES.vape) },
-    ];
-
-    return generateNonOverlappingLayoutPx(specs, viewport.w, viewport.h, {
-      marginXPct: 4,
-      marginYPct: 6,
-      paddingPx: 40,
-    });
-  }, [viewport]);
+  const specs = useMemo(() => (viewport ? groundSpecs(scene, viewport.w, viewport.h) : null), [viewport, scene]);
+
+  // The first layout for a seed is the anchor; other viewport sizes are adapted from it, not re-rolled
+  const anchor = useRef<{ seed: string; scene: readonly SceneItem[]; viewport: { w: number; h: number }; layout: Layout } | null>(null);
+
+  const layout = useMemo((): Layout | null => {
+    if (!viewport || !seed || !specs) return null;
+    let report: LayoutReport | null = null;
+    const opts = { ...GROUND_LAYOUT_OPTS, onReport: (r: LayoutReport) => { report = r; } };
+
+    const a = anchor.current;
+    if (a && a.seed === seed && a.scene === scene) {
+      if (a.viewport.w === viewport.w && a.viewport.h === viewport.h) return a.layout;
+      const adapted = adaptLayoutPx(a.layout.placed, a.viewport, specs, viewport.w, viewport.h, createRng(seed), opts);
+      return { placed: adapted, report };
+    }
+    const fresh = { placed: generateNonOverlappingLayoutPx(specs, viewport.w, viewport.h, createRng(seed), opts), report };
+    anchor.current = { seed, scene, viewport, layout: fresh };
+    return fresh;
+  }, [viewport, seed, scene, specs]);
+  const placed = layout?.placed ?? null;
+
+  const debugLayout = useDebugFlag("layout");
+  const violations = useMemo(
+    () => (debugLayout && placed && specs && viewport ? checkLayoutPx(placed, specs, viewport.w, viewport.h, GROUND_LAYOUT_OPTS) : []),
+    [debugLayout, placed, specs, viewport]
+  );
+
+  // What's drawn: the scene in the visitor's language (the layout above only needs sizes, so it keeps `scene`)
+  const { locale, t, tag } = useI18n();
+  const shown = useMemo(
+    () => localizeScene(scene, locale, (item) => {
+      const eventId = item.focus.type === "flier" ? item.focus.eventId : undefined;
+      const event = eventId ? EVENTS.find((e) => e.id === eventId) : undefined;
+      return event ? t.flier.eventAlt(event.title, event.venue, formatEventDate(event, tag)) : t.items[item.id];
+    }),
+    [scene, locale, t, tag]
+  );
+
+  const byId = useMemo(
+    () => Object.fromEntries(shown.map(i => [i.id, i])) as Record<string, SceneItem>,
+    [shown]
+  );
+  const { focus, setFocus } = useFocusHistory(byId);
+  const analytics = useAnalytics();
+  useFocusAnalytics(focus, analytics.track);
+  const close = () => setFocus({ type: "null" });
+
+  const sound = useSoundscape();
+  const openItem = (item: SceneItem) => {
+    // Panned to where the item lies across the screen, drags included
+    const at = P[item.id];
+    if (at && viewport) sound.play(item.sound, ((at.cx + physics.offsetFor(item.id).x.get()) / viewport.w) * 2 - 1);
+    switch (item.focus.type) {
+      case "flier": return setFocus({ type: "flier", id: item.id, side: "front" });
+      case "phone": return setFocus({ type: "phone", id: item.id, screen: "lock" });
+      case "trash": return setFocus({ type: "trash", id: item.id });
+    }
+  };
+
+  // The big pictures an item opens onto, fetched while the pointer is still on its way
+  const preloadFocus = (item: SceneItem) => {
+    switch (item.focus.type) {
+      case "flier":
+        preloadImage(item.image);
+        return preloadImage(item.focus.backImage);
+      case "phone":
+        return preloadImage(wallpaper, WALLPAPER_SIZES);
+      case "trash":
+        preloadImage(item.image);
+        if (item.focus.story?.photo) preloadImage(item.focus.story.photo);
+        return;
+    }
+  };
+
+  const focusedFlier = focus.type === "flier" ? byId[focus.id] : undefined;
+  const focusedTrash = focus.type === "trash" ? byId[focus.id]?.focus : undefined;
+  const focusedStory = focusedTrash?.type === "trash" ? focusedTrash.story : undefined;
+  const focusedEventId = focusedFlier?.focus.type === "flier" ? focusedFlier.focus.eventId : undefined;
 
   const P = useMemo(() => {
     if (!placed) return {} as Record<string, PlacedPx>;
     return Object.fromEntries(placed.map(p => [p.id, p])) as Record<string, PlacedPx>;
   }, [placed]);
 
+  const trashIds = useMemo(() => scene.filter((i) => i.focus.type === "trash").map((i) => i.id), [scene]);
+  const game = useCleanupGame(trashIds);
+  const pickedUp = game.playing ? game.collected : NONE;
+  // Clean-up game: opening a piece of trash picks it up (it flies into the bag when the close-up closes)
+  const { playing, collect } = game;
+  useEffect(() => {
+    if (playing && focus.type === "trash") collect(focus.id);
+  }, [playing, focus, collect]);
+
+  // What's still lying on the ground; the layout itself keeps everyone's spot
+  const onGround = useMemo(() => shown.filter((i) => !pickedUp.includes(i.id)), [shown, pickedUp]);
+  const groundPlaced = useMemo(() => placed?.filter((p) => !pickedUp.includes(p.id)) ?? null, [placed, pickedUp]);
+
+  const physics = useGroundPhysics(placed, viewport, layout?.report?.paddingPx ?? null, pickedUp);
+  const keys = useGroundKeyboard(groundPlaced, viewport, physics.offsetFor);
+  const overlayOpen = focus.type !== "null";
+  const [rewardOpen, setRewardOpen] = useState(false);
+  const closeReward = () => {
+    setRewardOpen(false);
+    game.dismissReward();
+  };
+  const sceneMode = useSceneMode();
+  const is3d = sceneMode.mode === "3d";
+  const reduceMotion = useReducedMotion() ?? false;
+  // Depth layers follow the mouse or the phone's tilt; held still under an overlay, in 3D and for reduced motion
+  const parallax = useParallax(!reduceMotion && !is3d && !overlayOpen);
+  const bgShift = useDepthShift(parallax.tilt, BACKGROUND_DEPTH);
+
+  // Closing an overlay (button, Escape, Back) hands focus to the item it shows, deep links included;
+  // if that item went into the bag, to the ground's tab stop instead
+  const shownId = useRef<string | null>(null);
+  const { focusItem, tabbableId } = keys;
+  useEffect(() => {
+    if (focus.type !== "null") {
+      shownId.current = focus.id;
+    } else if (shownId.current) {
+      const id = shownId.current;
+      const target = groundPlaced?.some((p) => p.id === id) ? id : tabbableId;
+      if (target) focusItem(target);
+      shownId.current = null;
+    }
+  }, [focus, focusItem, groundPlaced, tabbableId]);
+
   if (!viewport || !placed) {
     return (
       <div className="relative min-h-dvh overflow-hidden bg-neutral-900">
         <div aria-hidden className="absolute inset-0 overflow-hidden">
-          <div
-            className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 bg-center bg-cover"
-            style={{ width: `${100}vw`, height: `${100}vh`, backgroundImage: `url(${bg})` }}
-          />
+          <ResponsiveImage src={bg} sizes="100vw" alt="" className="absolute inset-0 h-full w-full object-cover" />
         </div>
         <div className="absolute inset-0 bg-black/25" />
       </div>
@@ -376,94 +726,214 @@ function FestivalGroundSite({
   }
 
   return (
+    // "user": with prefers-reduced-motion, layoutId fly-ins, the flier flip and hover lifts jump instead of animating
+    <MotionConfig reducedMotion="user">
     <div className="relative min-h-dvh overflow-hidden bg-neutral-900 text-white">
       <div aria-hidden className="absolute inset-0 overflow-hidden">
-        <div
-          className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 bg-center bg-cover"
-          style={{ width: `${100 / bgScale}vw`, height: `${100 / bgScale}vh`, transform: `translate(-50%, -50%) scale(${bgScale})`, backgroundImage: `url(${bg})` }}
-        />
+        {/* Overscanned a little while it shifts, so its edges never show */}
+        <motion.div className="absolute inset-0" style={{ x: bgShift.x, y: bgShift.y, scale: parallax.active ? 1.02 : 1 }}>
+          <div
+            className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2"
+            style={{ width: `${100 / bgScale}vw`, height: `${100 / bgScale}vh`, transform: `translate(-50%, -50%) scale(${bgScale})` }}
+          >
+            <ResponsiveImage
+              src={bg}
+              sizes={coverSizes(bg, viewport.w / bgScale, viewport.h / bgScale, bgScale)}
+              alt=""
+              className="h-full w-full object-cover"
+            />
+          </div>
+        </motion.div>
       </div>
       <div className="absolute inset-0 bg-black/25" />
 
-      {/* TRASH */}
-      <div className="absolute inset-0 select-none">
-        {[
-          { id: "trash-dino", url: DINO_TRASH_URL },
-          { id: "trash-band", url: BAND_TRASH_URL },
-          { id: "trash-cup", url: CUP_TRASH_URL },
-          { id: "trash-bottle", url: BOTTLE_TRASH_URL },
-          { id: "trash-flipflop", url: FLIPFLOP_TRASH_URL },
-          { id: "trash-glowstick", url: GLOWSTICK_TRASH_URL },
-          { id: "trash-keys", url: KEYS_TRASH_URL },
-          { id: "trash-lighter", url: LIGHTER_TRASH_URL },
-          { id: "trash-vape", url: VAPE_TRASH_URL },
-        ].map(s => (
+      {/* WebGL ground: draws and takes the pointer; the DOM items below stay for keyboard and screen readers */}
+      {is3d && (
+        <div aria-hidden className="absolute inset-0">
+          <GroundScene3D
+            items={onGround.map((item) => ({ item, placed: P[item.id], offset: physics.offsetFor(item.id) }))}
+            viewport={viewport}
+            backgroundUrl={bg}
+            reduceMotion={reduceMotion}
+            onOpen={openItem}
+            onPreload={preloadFocus}
+            onUnavailable={sceneMode.fallBack}
+          />
+        </div>
+      )}
+
+      {/* Shared descriptions, referenced by aria-describedby */}
+      <div className="sr-only">
+        <p id="ground-hint">{t.ground.hint}</p>
+        {Object.entries(t.ground.focusHints).map(([type, hint]) => <p key={type} id={`hint-${type}`}>{hint}</p>)}
+      </div>
+
+      {/* GROUND ITEMS (rendered from the scene manifest) */}
+      <div
+        ref={keys.ref}
+        role="group"
+        aria-label={t.ground.label}
+        aria-describedby="ground-hint"
+        aria-hidden={overlayOpen}
+        onKeyDown={keys.onKeyDown}
+        className="absolute inset-0 pointer-events-none select-none"
+      >
+        {onGround.map((item) => (
           <GroundItem
-            key={s.id}
-            id={s.id}
-            layoutId={s.id}
-            onClick={() => setFocus({ type: "trash", url: s.url, id: s.id, rot: P[s.id]?.rot ?? 0 })}
+            key={item.id}
+            id={item.id}
+            label={item.alt}
+            describedBy={`hint-${item.focus.type}`}
+            tabbable={keys.tabbableId === item.id}
+            onFocus={() => keys.onItemFocus(item.id)}
+            onPreload={() => preloadFocus(item)}
+            ghost={is3d}
+            layoutId={item.id}
+            z={item.z}
+            tilt={parallax.tilt}
+            promote={parallax.active}
+            shadow={item.focus.type === "phone" ? undefined : blurPlaceholder(item.image)}
+            lifted={focus.type !== "null" && focus.id === item.id}
+            onClick={() => openItem(item)}
             className="absolute -translate-x-1/2 -translate-y-1/2"
-            z={15}
-            style={toStyleCenter(P[s.id])}
-            rotate={P[s.id].rot}
+            style={toStyleCenter(P[item.id])}
+            rotate={P[item.id].rot}
+            offset={physics.offsetFor(item.id)}
+            onDragStart={() => physics.onDragStart(item.id)}
+            onDrag={(info) => physics.onDrag(item.id, info)}
+            onDragEnd={(info) => physics.onDragEnd(item.id, info)}
           >
-            <motion.img
-              layoutId={`${s.id}-img`}
-              src={s.url}
-              alt={s.id}
-              className="block w-full h-auto rounded-sm opacity-95"
-              transition={{ layout: { duration: 0.8 } }}
-            />
+            {item.focus.type === "phone" ? (
+              <motion.div layoutId="phone-shell" className="w-full" transition={{ layout: { duration: 0.8 } }}>
+                <PhoneShell>
+                  <PhoneImageOnly imageUrl={item.image} />
+                </PhoneShell>
+              </motion.div>
+            ) : (
+              <ResponsiveImage
+                layoutId={`${item.id}-img`}
+                src={item.image}
+                sizes={`${Math.ceil(P[item.id].widthPx)}px`}
+                alt={item.alt}
+                className={item.focus.type === "flier" ? "block w-full h-auto rounded-[8px]" : "block w-full h-auto rounded-sm opacity-95"}
+                transition={{ layout: { duration: 0.8 } }}
+              />
+            )}
           </GroundItem>
         ))}
       </div>
 
-      {/* FLIER + PHONE */}
-      <div className="absolute inset-0 pointer-events-none select-none">
-        {/* Flier */}
-        <GroundItem
-          id="flier"
-          layoutId="flier"
-          z={20}
-          onClick={() => setFocus({ type: "flier" })}
-          className="absolute -translate-x-1/2 -translate-y-1/2"
-          style={toStyleCenter(P["flier"])}
-          rotate={P["flier"].rot}
-        >
-          <motion.img
-            layoutId="flier-img"
-            src={flier}
-            alt="Show flier"
-            className="block w-full h-auto rounded-[8px]"
-            transition={{ layout: { duration: 0.8 } }}
-          />
-        </GroundItem>
-
-        {/* Phone */}
-        <GroundItem
-          id="phone"
-          layoutId="phone"
-          z={30}
-          onClick={() => setFocus({ type: "phone" })}
-          className="absolute -translate-x-1/2 -translate-y-1/2"
-          style={toStyleCenter(P["phone"])}
-          rotate={P["phone"].rot}
+      <div aria-hidden={overlayOpen} className="fixed bottom-3 right-3 z-[40] flex gap-2">
+        {!game.playing && trashIds.length > 0 && (
+          <button
+            onClick={game.start}
+            className="inline-flex items-center gap-2 px-3 py-1.5 rounded-md bg-white/90 text-black text-sm"
+            tabIndex={overlayOpen ? -1 : undefined}
+            title={t.ground.cleanUpTitle}
+          >
+            <ShoppingBag className="h-4 w-4" />
+            {t.ground.cleanUp}
+          </button>
+        )}
+        {analytics.available && analytics.consent !== null && (
+          <button
+            onClick={() => analytics.setConsent(analytics.consent === "granted" ? "denied" : "granted")}
+            className={`inline-flex items-center px-2 py-1.5 rounded-md text-sm ${analytics.consent === "granted" ? "bg-black/80 text-white ring-1 ring-white/60" : "bg-white/90 text-black"}`}
+            aria-pressed={analytics.consent === "granted"}
+            aria-label={t.ground.usageStats}
+            title={t.ground.usageStats}
+            tabIndex={overlayOpen ? -1 : undefined}
+          >
+            <BarChart3 className="h-4 w-4" />
+          </button>
+        )}
+        {sceneMode.webgl && (
+          <button
+            onClick={() => sceneMode.setMode(is3d ? "dom" : "3d")}
+            className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-md text-sm ${is3d ? "bg-black/80 text-white ring-1 ring-white/60" : "bg-white/90 text-black"}`}
+            aria-pressed={is3d}
+            title={t.ground.show3d}
+            tabIndex={overlayOpen ? -1 : undefined}
+          >
+            <Box className="h-4 w-4" />
+            3D
+          </button>
+        )}
+        {sound.available && (
+          <button
+            onClick={sound.toggle}
+            className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-md text-sm ${sound.on ? "bg-black/80 text-white ring-1 ring-white/60" : "bg-white/90 text-black"}`}
+            aria-pressed={sound.on}
+            title={sound.on ? t.ground.soundOff : t.ground.soundOn}
+            tabIndex={overlayOpen ? -1 : undefined}
+          >
+            {sound.on ? <Volume2 className="h-4 w-4" /> : <VolumeX className="h-4 w-4" />}
+            {t.ground.sound}
+          </button>
+        )}
+        {parallax.needsPermission && (
+          <button
+            onClick={parallax.requestPermission}
+            className="inline-flex items-center gap-2 px-3 py-1.5 rounded-md bg-white/90 text-black text-sm"
+            title={t.ground.tiltTitle}
+            tabIndex={overlayOpen ? -1 : undefined}
+          >
+            <Smartphone className="h-4 w-4" />
+            {t.ground.tilt}
+          </button>
+        )}
+        <LanguageSwitcher tabIndex={overlayOpen ? -1 : undefined} />
+        {/* Reshuffle (new seed → new layout, URL stays shareable) */}
+        <button
+          onClick={() => { physics.forget(); reshuffle(); }}
+          className="inline-flex items-center gap-2 px-3 py-1.5 rounded-md bg-white/90 text-black text-sm"
+          aria-label={t.ground.reshuffleLabel}
+          tabIndex={overlayOpen ? -1 : undefined}
+          title={t.ground.seed(seed ?? "")}
         >
-          <motion.div layoutId="phone-shell" className="w-full" transition={{ layout: { duration: 0.8 } }}>
-            <PhoneShell>
-              <PhoneImageOnly imageUrl={phoneIdle} />
-            </PhoneShell>
-          </motion.div>
-        </GroundItem>
+          <Shuffle className="h-4 w-4" />
+          {t.ground.reshuffle}
+        </button>
       </div>
 
+      {analytics.available && analytics.consent === null && (
+        <AnalyticsConsentPrompt onAnswer={analytics.setConsent} hidden={overlayOpen} />
+      )}
+
+      {game.playing && (
+        <CleanupHud
+          bagged={game.collected.filter((id) => !(focus.type === "trash" && focus.id === id)).map((id) => byId[id])}
+          count={game.collected.length}
+          total={trashIds.length}
+          cleared={game.cleared}
+          hidden={overlayOpen}
+          onShowReward={() => setRewardOpen(true)}
+          onReset={game.reset}
+          onStop={game.stop}
+        />
+      )}
+
+      {/* Clean-up reward: shows once the last piece is bagged and its close-up has closed */}
+      <AnimatePresence>
+        {focus.type === "null" && (game.rewardDue || rewardOpen) && (
+          <CleanupReward
+            count={trashIds.length}
+            links={links}
+            onClose={closeReward}
+            onReset={() => { closeReward(); game.reset(); }}
+          />
+        )}
+      </AnimatePresence>
+
+      {debugLayout && <LayoutDebugOverlay placed={placed} report={layout?.report ?? null} violations={violations} />}
+
       {/* Overlays */}
       <AnimatePresence>
         {(focus.type === "flier" || focus.type === "phone") && (
           <motion.button
-            aria-label="Close overlay"
-            onClick={() => setFocus({ type: "null" })}
+            aria-label={t.overlay.closeOverlay}
+            tabIndex={-1}
+            onClick={close}
             className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[80]"
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
@@ -475,11 +945,16 @@ function FestivalGroundSite({
 
       {/* FLIER FOCUS — true flip */}
       <AnimatePresence>
-        {focus.type === "flier" && (
+        {focusedFlier?.focus.type === "flier" && (
           <FlierFlip
-            frontUrl={flier}
-            backUrl={flierBack}
-            onClose={() => setFocus({ type: "null" })}
+            layoutId={`${focusedFlier.id}-img`}
+            alt={focusedFlier.alt}
+            event={focusedEventId ? EVENTS.find((e) => e.id === focusedEventId) : undefined}
+            frontUrl={focusedFlier.image}
+            backUrl={focusedFlier.focus.backImage}
+            side={focus.type === "flier" ? focus.side : "front"}
+            onSideChange={(side) => setFocus({ type: "flier", id: focusedFlier.id, side })}
+            onClose={close}
           />
         )}
       </AnimatePresence>
@@ -487,9 +962,9 @@ function FestivalGroundSite({
       {/* PHONE FOCUS */}
       <AnimatePresence>
         {focus.type === "phone" && (
-          <motion.div
-            role="dialog"
-            aria-modal
+          <ModalDialog
+            label={t.overlay.phone}
+            onClose={close}
             className="fixed z-[90] inset-0 grid place-items-center p-4"
             initial={{ opacity: 0, scale: 0.98 }}
             animate={{ opacity: 1, scale: 1 }}
@@ -499,16 +974,18 @@ function FestivalGroundSite({
             <motion.div layoutId="phone" className="relative w-[360px] sm:w-[400px]" transition={{ layout: { duration: 0.6 } }}>
               <motion.div layoutId="phone-shell" transition={{ layout: { duration: 0.6 } }}>
                 <PhoneShell noShadow>
-                  <AndroidLockScreen
-                    links={links.slice(0, 3)}
+                  <PhoneOS
+                    links={links}
                     wallpaperUrl={wallpaper}
-                    notifications={[NOTIF1_URL, NOTIF2_URL]}
+                    notifications={LOCK_NOTIFICATIONS}
+                    screen={focus.screen}
+                    onScreenChange={(screen) => setFocus({ ...focus, screen })}
                   />
                 </PhoneShell>
               </motion.div>
-              <CloseBtn onClick={() => setFocus({ type: "null" })} />
+              <CloseBtn onClick={close} />
             </motion.div>
-          </motion.div>
+          </ModalDialog>
         )}
       </AnimatePresence>
 
@@ -517,38 +994,54 @@ function FestivalGroundSite({
         {isTrash(focus) && (
           <>
             <motion.button
-              aria-label="Close overlay"
-              onClick={() => setFocus({ type: "null" })}
+              aria-label={t.overlay.closeOverlay}
+              tabIndex={-1}
+              onClick={close}
               className="fixed inset-0 z-[85] bg-black/60 backdrop-blur-sm"
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               exit={{ opacity: 0 }}
               transition={{ duration: 0.25 }}
             />
-            <div className="fixed inset-0 z-[90] grid place-items-center p-4 pointer-events-none">
+            <ModalDialog
+              label={focusedStory?.title ?? byId[focus.id].alt}
+              aria-describedby={focusedStory ? "trash-story" : undefined}
+              onClose={close}
+              className="fixed inset-0 z-[90] flex flex-col md:flex-row items-center justify-center gap-6 md:gap-10 p-4 pointer-events-none"
+            >
               <div className="pointer-events-auto">
                 <motion.div
                   layoutId={focus.id}
-                  style={{ rotate: focus.rot }}
+                  style={{ rotate: P[focus.id]?.rot ?? 0 }}
                   transition={{ layout: { duration: 0.5 } }}
                 >
-                  <img
-                    src={focus.url}
-                    alt="trash"
-                    onClick={() => setFocus({ type: "null" })}
-                    className="block w-auto h-auto max-w-[96vw] max-h-[90vh] rounded-md cursor-pointer object-contain"
-                  />
+                  <button onClick={close} aria-label={t.overlay.close} className="block cursor-pointer">
+                    <img
+                      src={byId[focus.id].image}
+                      alt={byId[focus.id].alt}
+                      // Leaves room beside (wide screens) or under (narrow) the image for its story
+                      className={`block w-auto h-auto rounded-md object-contain ${focusedStory ? "max-w-[80vw] max-h-[50vh] md:max-w-[50vw] md:max-h-[80vh]" : "max-w-[96vw] max-h-[90vh]"}`}
+                    />
+                  </button>
                 </motion.div>
               </div>
-            </div>
+              {focusedStory && <TrashStoryPanel id="trash-story" story={focusedStory} />}
+            </ModalDialog>
           </>
         )}
       </AnimatePresence>
     </div>
+    </MotionConfig>
   );
 }
 
-/** ------------ Flier true 3D flip, keeps layoutId mounted ------------ */
+/** ------------ Flier true 3D flip + zoom, keeps layoutId mounted ------------ */
+const FLIP_TRANSITION = { duration: 0.55, ease: [0.2, 0.8, 0.2, 1] as [number, number, number, number] };
+const FLIP_FLING_S = 0.15; // how far (in seconds of velocity) a released swipe carries the rotation
+
+/** Faces sit at multiples of 180°; even multiples show the front. */
+const showsFront = (deg: number) => Math.abs(Math.round(deg / 180)) % 2 === 0;
+
 function useViewportSize() {
   const [vp, setVp] = useState<{ w: number; h: number }>({ w: 0, h: 0 });
   useEffect(() => {
@@ -570,8 +1063,28 @@ function useImageNaturalSize(src: string) {
   return size;
 }
 
-function FlierFlip({ frontUrl, backUrl, onClose }: { frontUrl: string; backUrl: string; onClose: () => void }) {
-  const [isFront, setIsFront] = useState(true);
+function FlierFlip({
+  layoutId,
+  alt,
+  event,
+  frontUrl,
+  backUrl,
+  side,
+  onSideChange,
+  onClose,
+}: {
+  layoutId: string;
+  alt: string;
+  /** Calendar entry the flier advertises, if any */
+  event?: ShowEvent;
+  frontUrl: string;
+  backUrl: string;
+  side: FlierSide;
+  onSideChange: (side: FlierSide) => void;
+  onClose: () => void;
+}) {
+  const { t } = useI18n();
+  const isFront = side === "front";
   const { w, h } = useViewportSize();
   const natural = useImageNaturalSize(frontUrl);
 
@@ -581,10 +1094,38 @@ function FlierFlip({ frontUrl, backUrl, onClose }: { frontUrl: string; backUrl:
   const width = Math.max(240, Math.floor(maxW));
   const height = Math.floor(width / ratio);
 
+  // Resting angle; a swipe adds its own rotation on top and may carry the card to the next face
+  const reduceMotion = useReducedMotion();
+  const restDeg = useRef(isFront ? 0 : 180);
+  const baseDeg = useMotionValue(restDeg.current);
+  const degPerPx = reduceMotion ? 0 : 180 / width; // dragging across the whole card turns it over
+
+  const zoom = usePinchZoom({
+    onSwipeEnd: (dx, vx) => {
+      const flung = (dx + vx * FLIP_FLING_S) * (180 / width);
+      const target = Math.round((restDeg.current + flung) / 180) * 180;
+      if (target === restDeg.current) return;
+      const turned = showsFront(target) !== showsFront(restDeg.current);
+      restDeg.current = target;
+      if (turned) onSideChange(showsFront(target) ? "front" : "back");
+      // A whole turn lands on the face already shown, so the [isFront] effect below won't run: spin here
+      else if (reduceMotion) baseDeg.set(target);
+      else animate(baseDeg, target, FLIP_TRANSITION);
+    },
+  });
+  const rotateY = useTransform([baseDeg, zoom.swipeX], ([deg, dx]: number[]) => deg + dx * degPerPx);
+
+  // The button, a swipe and the URL all end here: turn to the named face
+  useEffect(() => {
+    if (showsFront(restDeg.current) !== isFront) restDeg.current += 180;
+    if (reduceMotion) baseDeg.set(restDeg.current);
+    else animate(baseDeg, restDeg.current, FLIP_TRANSITION);
+  }, [isFront, reduceMotion, baseDeg]);
+
   return (
-    <motion.div
-      role="dialog"
-      aria-modal
+    <ModalDialog
+      label={t.flier.dialog(alt, side)}
+      onClose={onClose}
       className="fixed z-[90] inset-0 grid place-items-center p-3"
       initial={{ opacity: 0, scale: 0.98 }}
       animate={{ opacity: 1, scale: 1 }}
@@ -592,177 +1133,312 @@ function FlierFlip({ frontUrl, backUrl, onClose }: { frontUrl: string; backUrl:
       transition={{ duration: 0.35 }}
     >
       <motion.div
-        layoutId="flier-img" // stays mounted so it never flies back to the ground
-        className="relative [perspective:1200px]"
+        layoutId={layoutId} // stays mounted so it never flies back to the ground
+        className="relative"
         style={{ width, height }}
       >
+        {/* Gesture surface: pinch / wheel / double-tap zoom, pan while zoomed, swipe to turn over */}
+        <div
+          ref={zoom.ref}
+          {...zoom.handlers}
+          className={`absolute inset-0 touch-none select-none rounded-lg ${zoom.zoomed ? "overflow-hidden cursor-move" : "cursor-grab"}`}
+        >
+        <motion.div className="absolute inset-0 [perspective:1200px]" style={{ scale: zoom.scale, x: zoom.x, y: zoom.y }}>
         <motion.div
           className="absolute inset-0 [transform-style:preserve-3d]"
-          animate={{ rotateY: isFront ? 0 : 180 }}
-          transition={{ duration: 0.55, ease: [0.2, 0.8, 0.2, 1] }}
+          style={{ rotateY }}
         >
           {/* Front */}
-          <div className="absolute inset-0 [backface-visibility:hidden]">
-            <img src={frontUrl} alt="Flier (front)" className="w-full h-full object-contain rounded-lg" />
+          <div aria-hidden={!isFront} className="absolute inset-0 [backface-visibility:hidden]">
+            <img src={frontUrl} alt={t.flier.front(alt)} draggable={false} className="w-full h-full object-contain rounded-lg" />
           </div>
           {/* Back */}
-          <div className="absolute inset-0 [backface-visibility:hidden] [transform:rotateY(180deg)]">
-            <img src={backUrl} alt="Flier (back)" className="w-full h-full object-contain rounded-lg" />
+          <div aria-hidden={isFront} className="absolute inset-0 [backface-visibility:hidden] [transform:rotateY(180deg)]">
+            <img src={backUrl} alt={t.flier.back(alt)} draggable={false} className="w-full h-full object-contain rounded-lg" />
           </div>
         </motion.div>
+        </motion.div>
+        </div>
 
         <CloseBtn onClick={onClose} />
         <button
-          onClick={() => setIsFront(f => !f)}
+          onClick={() => { zoom.reset(); onSideChange(isFront ? "back" : "front"); }}
           className="absolute bottom-3 left-3 inline-flex items-center gap-2 px-3 py-1.5 rounded-md bg-white/90 text-black text-sm"
-          aria-label="Flip flier"
+          aria-label={isFront ? t.flier.flipToBack : t.flier.flipToFront}
         >
           <Rotate3D className="h-4 w-4" />
-          Flip
+          {t.flier.flip}
         </button>
+        {event && <EventActions event={event} />}
       </motion.div>
+    </ModalDialog>
+  );
+}
+
+/** Show details plus tickets / add-to-calendar while it's still ahead. */
+function EventActions({ event }: { event: ShowEvent }) {
+  const { t, tag } = useI18n();
+  const upcoming = eventEnd(event) > Date.now();
+  const addToCalendar = () => {
+    const ics = eventIcs(event, { domain: new URL(PROFILE.website).hostname });
+    downloadBlob(new Blob([ics], { type: "text/calendar;charset=utf-8" }), `${event.id}.ics`);
+  };
+
+  return (
+    <>
+      <div className="absolute top-3 left-3 right-10 text-xs sm:text-sm">
+        <p className="inline-block max-w-full px-2.5 py-1.5 rounded-md bg-black/70 backdrop-blur-sm">
+          <span className="font-semibold">{event.title}</span>
+          {" · "}{formatEventDate(event, tag)}{" · "}{event.venue}, {event.city}
+          {!upcoming && <span className="opacity-70"> {t.flier.pastShow}</span>}
+        </p>
+      </div>
+      {upcoming && (
+        <div className="absolute bottom-3 right-3 flex gap-2">
+          {event.ticketUrl && (
+            <a
+              href={event.ticketUrl}
+              target="_blank"
+              rel="noreferrer"
+              className="inline-flex items-center gap-2 px-3 py-1.5 rounded-md bg-white/90 text-black text-sm"
+            >
+              <Ticket className="h-4 w-4" />
+              {t.flier.tickets}
+            </a>
+          )}
+          <button
+            onClick={addToCalendar}
+            className="inline-flex items-center gap-2 px-3 py-1.5 rounded-md bg-white/90 text-black text-sm"
+          >
+            <CalendarPlus className="h-4 w-4" />
+            {t.flier.addToCalendar}
+          </button>
+        </div>
+      )}
+    </>
+  );
+}
+
+/** ------------ Trash close-up caption ------------ */
+/** Where a piece of trash was found, its story, and a way into the shoot it came from. */
+function TrashStoryPanel({ id, story }: { id: string; story: TrashStory }) {
+  const { t, tag } = useI18n();
+  const found = [story.festival, story.date && formatStoryDate(story.date, tag)].filter(Boolean).join(" · ");
+  return (
+    <motion.div
+      className="pointer-events-auto w-full max-w-sm max-h-[40vh] md:max-h-[80vh] overflow-y-auto rounded-xl bg-neutral-900/90 p-4 text-white ring-1 ring-white/10 shadow-2xl"
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0, transition: { delay: 0.25, duration: 0.3 } }}
+      exit={{ opacity: 0, transition: { duration: 0.15 } }}
+    >
+      <h2 className="text-base font-semibold">{story.title}</h2>
+      {found && <p className="mt-0.5 text-xs opacity-60">{found}</p>}
+      <p id={id} className="mt-2 text-sm leading-relaxed opacity-90">{story.caption}</p>
+      {story.photo && (
+        <a
+          href={story.albumUrl ?? story.photo}
+          target="_blank"
+          rel="noreferrer"
+          className="mt-3 block overflow-hidden rounded-lg ring-1 ring-white/10"
+        >
+          <img src={story.photo} alt={t.story.photo(story.title)} className="block w-full h-auto" />
+        </a>
+      )}
+      {story.albumUrl && (
+        <a
+          href={story.albumUrl}
+          target="_blank"
+          rel="noreferrer"
+          className="mt-3 inline-flex items-center gap-1.5 text-xs font-semibold underline"
+        >
+          {t.story.seeAlbum} <ExternalLink className="h-3.5 w-3.5" />
+        </a>
+      )}
     </motion.div>
   );
 }
 
+/** ------------ Clean-up game reward ------------ */
+function CleanupReward({
+  count,
+  links,
+  onClose,
+  onReset,
+}: {
+  count: number;
+  links: PhoneLink[];
+  onClose: () => void;
+  onReset: () => void;
+}) {
+  const { t } = useI18n();
+  return (
+    <>
+      <motion.button
+        aria-label={t.overlay.close}
+        tabIndex={-1}
+        onClick={onClose}
+        className="fixed inset-0 z-[85] bg-black/60 backdrop-blur-sm"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+      />
+      <ModalDialog
+        label={t.cleanup.clean}
+        onClose={onClose}
+        className="fixed inset-0 z-[90] grid place-items-center p-4 pointer-events-none"
+      >
+        <motion.div
+          className="pointer-events-auto w-full max-w-md space-y-4 rounded-2xl bg-neutral-900 p-5 text-white ring-1 ring-white/10 shadow-2xl"
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: 0.95 }}
+        >
+          <div className="flex items-center gap-3">
+            <Gift className="h-8 w-8 shrink-0 text-amber-400" />
+            <div>
+              <h2 className="text-lg font-semibold">{t.cleanup.cleanHeading}</h2>
+              <p className="text-sm opacity-75">
+                {t.cleanup.allPickedUp(count)} {t.cleanup.pressKit}
+              </p>
+            </div>
+          </div>
+          <PressKitButtons links={links} />
+          <div className="flex flex-wrap gap-2 text-sm">
+            <button onClick={onReset} className="inline-flex items-center gap-1.5 rounded-md bg-white/15 px-3 py-1.5">
+              {t.cleanup.resetGround}
+            </button>
+            <button onClick={onClose} className="rounded-md px-3 py-1.5 opacity-75">
+              {t.overlay.close}
+            </button>
+          </div>
+        </motion.div>
+      </ModalDialog>
+    </>
+  );
+}
+
 /** ------------ primitives ------------ */
+/** role=dialog layer with a focus trap and Escape to close (see useDialogFocus). */
+function ModalDialog({ label, onClose, className = "", ...props }: HTMLMotionProps<"div"> & { label: string; onClose: () => void }) {
+  const dialog = useDialogFocus(onClose);
+  return <motion.div role="dialog" aria-modal aria-label={label} {...props} {...dialog} className={`outline-none ${className}`} />;
+}
+
 function GroundItem({
   id,
+  label,
+  describedBy,
+  tabbable = true,
+  onFocus,
+  onPreload,
+  ghost = false,
   layoutId,
   children,
   onClick,
   className = "",
   z = 10,
+  tilt,
+  promote = false,
+  shadow,
+  lifted = false,
   style,
   rotate,
+  offset,
+  onDragStart,
+  onDrag,
+  onDragEnd,
 }: {
   id: string;
+  label: string;
+  describedBy?: string;
+  /** Only one item is in the tab order; arrow keys reach the rest */
+  tabbable?: boolean;
+  onFocus?: () => void;
+  /** Hovered, pressed or focused: a hint it's about to be opened */
+  onPreload?: () => void;
+  /** Drawn by the 3D scene: keeps its spot, focus ring and clicks-by-keyboard, but shows nothing and lets the pointer through */
+  ghost?: boolean;
   layoutId?: string;
   children: React.ReactNode;
   onClick: () => void;
   className?: string;
   z?: number;
+  /** Parallax input (see useParallax); the item's depth comes from its z */
+  tilt: Tilt;
+  /** Parallax is running: give the moving layers their own compositor layer */
+  promote?: boolean;
+  /** Image the shadow is cut from (the item's blur placeholder); a plain box without one */
+  shadow?: string;
+  /** Open in an overlay: it has left the ground, so no shadow here */
+  lifted?: boolean;
   style?: React.CSSProperties;
   rotate?: number;
+  offset?: { x: MotionValue<number>; y: MotionValue<number> };
+  onDragStart?: () => void;
+  onDrag?: (info: PanInfo) => void;
+  onDragEnd?: (info: PanInfo) => void;
 }) {
+  // A press that moves past framer's drag threshold (3px) is a drag; anything less is a tap
+  const dragged = useRef(false);
+  const draggable = !!offset && !ghost;
+  const shift = useDepthShift(tilt, depthForZ(z));
+  const layer = promote ? "will-change-transform" : "";
+
   return (
     <motion.button
-      aria-label={`Open ${id}`}
-      onClick={onClick}
-      className={`pointer-events-auto ${className}`}
-      style={{ zIndex: z, ...(style ?? {}) }}
-      initial={{ y: 0 }}
-      whileHover={{ y: -2 }}
+      data-ground-id={id}
+      aria-label={label}
+      aria-describedby={describedBy}
+      tabIndex={tabbable ? 0 : -1}
+      onFocus={() => { onFocus?.(); onPreload?.(); }}
+      onPointerEnter={onPreload}
+      onPointerDown={() => { dragged.current = false; onPreload?.(); }}
+      onClick={() => {
+        if (dragged.current) { dragged.current = false; return; }
+        onClick();
+      }}
+      className={`${ghost ? "pointer-events-none" : "pointer-events-auto"} rounded-md outline-none motion-safe:transition-[left,top,width] motion-safe:duration-500 motion-safe:ease-out focus-visible:ring-2 focus-visible:ring-white focus-visible:ring-offset-4 focus-visible:ring-offset-transparent ${draggable ? "cursor-grab active:cursor-grabbing" : ""} ${className}`}
+      style={{ zIndex: z, ...(style ?? {}), ...(offset ?? {}) }}
+      transformTemplate={centerTransform}
+      drag={draggable}
+      dragMomentum={false}
+      dragElastic={0}
+      onDragStart={() => { dragged.current = true; onDragStart?.(); }}
+      onDrag={(_, info) => onDrag?.(info)}
+      onDragEnd={(_, info) => onDragEnd?.(info)}
+      whileDrag={{ scale: 1.04, zIndex: 60 }}
       whileTap={{ scale: 0.985 }}
     >
-      <motion.div
-        layoutId={layoutId}
-        className="[perspective:1000px]"
-        style={{ rotate, filter: "drop-shadow(0 10px 14px rgba(0,0,0,0.45))" }} // default state shadow only
-        transition={{ type: "spring", stiffness: 58, damping: 20 }}
-      >
-        {children}
+      <motion.div className={`relative ${layer}`} style={{ x: shift.x, y: shift.y }}>
+        {/* Shadow: blurred once, then only moved as the light swings (animating a drop-shadow filter repaints every frame) */}
+        <motion.div aria-hidden className={`absolute inset-0 transition-opacity duration-500 ${lifted ? "opacity-0" : ""} ${layer} ${ghost ? "invisible" : ""}`} style={{ x: shift.shadowX, y: shift.shadowY, rotate }}>
+          {shadow ? (
+            <img src={shadow} alt="" className="h-full w-full brightness-0 blur-[7px] opacity-[0.45]" />
+          ) : (
+            <div className="h-full w-full bg-black/45 blur-[7px]" />
+          )}
+        </motion.div>
+        <motion.div
+          layoutId={layoutId}
+          className={`relative [perspective:1000px] ${ghost ? "invisible" : ""}`}
+          style={{ rotate }}
+          initial={{ y: 0 }}
+          whileHover={{ y: -2 }}
+          transition={{ type: "spring", stiffness: 58, damping: 20 }}
+        >
+          {children}
+        </motion.div>
       </motion.div>
     </motion.button>
   );
 }
 
-function PhoneShell({ children, noShadow = false }: { children?: React.ReactNode; noShadow?: boolean }) {
-  // square corners
-  return (
-    <div className={`relative aspect-[9/18] w-full max-w-sm rounded-none bg-black ${noShadow ? "shadow-none" : "shadow-2xl"} ring-1 ring-white/10 overflow-hidden`}>
-      <div className="absolute inset-0 bg-gradient-to-br from-white/10 via-transparent to-white/5 pointer-events-none" />
-      <div className="absolute top-0 left-0 right-0 mt-0 h-6 bg-black/70 border-b border-white/10" />
-      <div className="relative h-full w-full bg-neutral-900/90 text-white">{children}</div>
-    </div>
-  );
-}
-
-function PhoneImageOnly({ imageUrl }: { imageUrl: string }) {
-  return (
-    <div className="relative h-full w-full">
-      <div className="absolute inset-0 bg-center bg-cover" style={{ backgroundImage: `url(${imageUrl})` }} />
-      <div className="absolute inset-0 bg-black/20" />
-    </div>
-  );
-}
-
-function AndroidLockScreen({
-  links,
-  wallpaperUrl,
-  notifications = [],
-}: {
-  links: { label: string; href: string; icon: React.ElementType }[];
-  wallpaperUrl: string;
-  notifications?: string[];
-}) {
-  const [now, setNow] = useState(new Date());
-  useEffect(() => { const id = setInterval(() => setNow(new Date()), 1000); return () => clearInterval(id); }, []);
-
-  const hh = now.getHours().toString().padStart(2, "0");
-  const mm = now.getMinutes().toString().padStart(2, "0");
-  const dayFmt = now.toLocaleDateString(undefined, { weekday: "short" });
-  const dateFmt = now.toLocaleDateString(undefined, { month: "short", day: "numeric" });
-
-  return (
-    <div className="relative h-full w-full">
-      <div className="absolute inset-0 bg-center bg-cover" style={{ backgroundImage: `url(${wallpaperUrl})` }} />
-      <div className="absolute inset-0 bg-black/35" />
-      <div className="absolute top-2 left-0 right-0 px-4 flex justify-between text-[10px] opacity-90">
-        <span>{`${hh}:${mm}`}</span>
-        <span>5G • 100%</span>
-      </div>
-      <div className="absolute left-0 right-0 top-16 text-center select-none">
-        <div className="text-6xl font-semibold tracking-tight">
-          {hh}:{mm}
-        </div>
-        <div className="mt-1 text-xs opacity-90">
-          {dayFmt}, {dateFmt}
-        </div>
-      </div>
-
-      
-      {/* Notifications + links wrapper */}
-      <div className="absolute left-3 right-3 top-44">
-        {/* Notifications: images only */}
-        <div className="space-y-3">
-          {notifications.map((src, i) => (
-            <div key={i} className="w-full px-3 flex justify-start">
-              <img src={src} alt="notification" className="w-full h-auto rounded-md ring-1 ring-white/30" />
-            </div>
-          ))}
-        </div>
-        {/* Quick links */}
-        <div className="mt-3 space-y-2">
-          {links.slice(0, 3).map((l) => {
-            const bannerSrc = l.label === "Facebook"
-              ? LINK_FACEBOOK_IMG
-              : l.label === "Instagram"
-              ? LINK_INSTAGRAM_IMG
-              : LINK_WEBSITE_IMG;
-            return (
-              <a key={l.href} href={l.href} target="_blank" rel="noreferrer" className="block w-full px-3">
-                <img src={bannerSrc} alt={l.label} className="w-full h-auto rounded-md ring-1 ring-white/20" />
-              </a>
-            );
-          })}
-        </div>
-      </div>
-<div className="absolute bottom-6 left-0 right-0 text-center text-xs opacity-90">
-        <div className="mx-auto mb-2 w-10 h-1.5 rounded-full bg-white/60" />
-        <div className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-white/20">
-          <Lock className="h-3 w-3" /> Swipe up to unlock
-        </div>
-      </div>
-    </div>
-  );
-}
-
 function CloseBtn({ onClick }: { onClick: () => void }) {
+  const { t } = useI18n();
   return (
     <button
       onClick={onClick}
-      aria-label="Close"
+      aria-label={t.overlay.close}
       className="absolute -top-3 -right-3 p-2 rounded-full bg-white text-black border border-black/10"
     >
       <CloseX className="h-4 w-4" />
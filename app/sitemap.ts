@@ -0,0 +1,10 @@
+import type { MetadataRoute } from "next";
+import { SITE_URL } from "../lib/seo";
+
+// Written once at build time (output: "export")
+export const dynamic = "force-static";
+
+/** One page: overlays are ?focus= states of it, not separate documents. */
+export default function sitemap(): MetadataRoute.Sitemap {
+  return [{ url: new URL("/", SITE_URL).toString(), lastModified: new Date(), changeFrequency: "monthly", priority: 1 }];
+}
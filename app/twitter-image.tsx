@@ -0,0 +1,2 @@
+/** The X / Twitter card uses the same picture as Open Graph. */
+export { default, alt, size, contentType } from "./opengraph-image";
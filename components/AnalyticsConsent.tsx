@@ -0,0 +1,33 @@
+import React from "react";
+import { BarChart3 } from "lucide-react";
+import { useI18n } from "./useI18n";
+import type { AnalyticsConsent } from "./useAnalytics";
+
+/** The one-time question, shown until the visitor answers; the toolbar toggle changes it later. */
+export function AnalyticsConsentPrompt({ onAnswer, hidden }: { onAnswer: (answer: AnalyticsConsent) => void; hidden: boolean }) {
+  const { t } = useI18n();
+  const tab = hidden ? -1 : undefined;
+  return (
+    <div
+      role="region"
+      aria-label={t.consent.label}
+      aria-hidden={hidden}
+      className="fixed bottom-14 right-3 z-[40] max-w-xs rounded-xl bg-black/80 p-3 text-sm text-white ring-1 ring-white/15 backdrop-blur"
+    >
+      <p className="flex items-center gap-2 font-semibold">
+        <BarChart3 className="h-4 w-4" /> {t.consent.question}
+      </p>
+      <p className="mt-1 text-xs opacity-80">
+        {t.consent.detail}
+      </p>
+      <div className="mt-2 flex justify-end gap-2">
+        <button onClick={() => onAnswer("denied")} tabIndex={tab} className="rounded-md bg-white/15 px-2.5 py-1 text-xs">
+          {t.consent.deny}
+        </button>
+        <button onClick={() => onAnswer("granted")} tabIndex={tab} className="rounded-md bg-white/90 px-2.5 py-1 text-xs font-semibold text-black">
+          {t.consent.allow}
+        </button>
+      </div>
+    </div>
+  );
+}
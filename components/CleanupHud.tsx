@@ -0,0 +1,69 @@
+import React from "react";
+import { motion } from "framer-motion";
+import { Gift, RotateCcw, ShoppingBag, X as CloseX } from "lucide-react";
+import { useI18n } from "./useI18n";
+import type { SceneItem } from "../lib/scene";
+
+/**
+ * The clean-up game's bag: a counter plus a thumbnail per picked-up item. Thumbnails share
+ * the item's layoutId, so closing a close-up sends the item flying into the bag (and a
+ * reset sends everything back out onto the ground).
+ */
+export function CleanupHud({
+  bagged,
+  count,
+  total,
+  cleared,
+  hidden,
+  onShowReward,
+  onReset,
+  onStop,
+}: {
+  /** Items to draw in the bag (the one open in a close-up is left out until it closes) */
+  bagged: SceneItem[];
+  count: number;
+  total: number;
+  cleared: boolean;
+  /** An overlay is open: keep the HUD out of the tab order */
+  hidden: boolean;
+  onShowReward: () => void;
+  onReset: () => void;
+  onStop: () => void;
+}) {
+  const { t } = useI18n();
+  const tab = hidden ? -1 : undefined;
+  return (
+    <div
+      aria-hidden={hidden}
+      className="fixed bottom-3 left-3 z-[40] flex items-center gap-3 rounded-xl bg-black/70 px-3 py-2 text-sm text-white ring-1 ring-white/15 backdrop-blur"
+    >
+      <ShoppingBag className="h-5 w-5 shrink-0" />
+      {bagged.length > 0 && (
+        <div className="flex -space-x-3">
+          {bagged.map((item) => (
+            <motion.div key={item.id} layoutId={item.id} transition={{ layout: { duration: 0.6 } }} className="h-7 w-7">
+              <img src={item.image} alt="" className="h-full w-full object-contain" />
+            </motion.div>
+          ))}
+        </div>
+      )}
+      <p role="status" className="tabular-nums whitespace-nowrap">
+        <motion.span key={count} className="inline-block font-semibold" initial={{ scale: 1.5 }} animate={{ scale: 1 }}>
+          {count}
+        </motion.span>{" "}
+        / {total} {t.cleanup.pickedUp}
+      </p>
+      {cleared && (
+        <button onClick={onShowReward} tabIndex={tab} className="inline-flex items-center gap-1.5 rounded-md bg-amber-400 px-2 py-1 text-xs font-semibold text-black">
+          <Gift className="h-3.5 w-3.5" /> {t.cleanup.reward}
+        </button>
+      )}
+      <button onClick={onReset} tabIndex={tab} className="inline-flex items-center gap-1.5 rounded-md bg-white/15 px-2 py-1 text-xs">
+        <RotateCcw className="h-3.5 w-3.5" /> {t.cleanup.resetGround}
+      </button>
+      <button onClick={onStop} tabIndex={tab} aria-label={t.cleanup.stop} className="rounded-md p-1 hover:bg-white/15">
+        <CloseX className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import React from "react";
+import { Languages } from "lucide-react";
+import { LOCALES, MESSAGES, isLocale } from "../lib/i18n";
+import { useI18n } from "./useI18n";
+
+/** Toolbar language picker; each language is listed in its own name. */
+export function LanguageSwitcher({ tabIndex }: { tabIndex?: number }) {
+  const { locale, t, setLocale } = useI18n();
+  return (
+    <label className="inline-flex items-center gap-1.5 px-2 py-1.5 rounded-md bg-white/90 text-black text-sm" title={t.ground.language}>
+      <Languages className="h-4 w-4" />
+      <span className="sr-only">{t.ground.language}</span>
+      <select
+        value={locale}
+        onChange={(e) => { if (isLocale(e.target.value)) setLocale(e.target.value); }}
+        tabIndex={tabIndex}
+        className="bg-transparent outline-none cursor-pointer"
+      >
+        {LOCALES.map((l) => (
+          <option key={l} value={l} lang={l}>{MESSAGES[l].languageName}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,97 @@
+import React from "react";
+import { collisionBox, type Bounds, type LayoutReport, type LayoutViolation, type Obb, type PlacedPx } from "../lib/layout";
+
+/** Corners of an oriented box, inflated by `grow` on every side, as an SVG points list. */
+function obbPoints(b: Obb, grow = 0) {
+  const hw = b.hw + grow;
+  const hh = b.hh + grow;
+  return [[-1, -1], [1, -1], [1, 1], [-1, 1]]
+    .map(([sx, sy]) => `${b.cx + sx * hw * b.ux - sy * hh * b.uy},${b.cy + sx * hw * b.uy + sy * hh * b.ux}`)
+    .join(" ");
+}
+
+const Rect = ({ b, ...rest }: { b: Bounds } & React.SVGProps<SVGRectElement>) => (
+  <rect x={b.minX} y={b.minY} width={Math.max(0, b.maxX - b.minX)} height={Math.max(0, b.maxY - b.minY)} fill="none" {...rest} />
+);
+
+const sameBounds = (a: Bounds, b: Bounds) =>
+  a.minX === b.minX && a.maxX === b.maxX && a.minY === b.minY && a.maxY === b.maxY;
+
+/**
+ * ?debug=layout: draws what the layout engine worked with (the area, each item's own area
+ * and center range, collision shapes with their padding) over the ground, and lists what
+ * the relaxation did. Shapes are drawn at their layout spots; drag offsets aren't included.
+ */
+export function LayoutDebugOverlay({
+  placed,
+  report,
+  violations,
+}: {
+  placed: PlacedPx[];
+  report: LayoutReport | null;
+  violations: LayoutViolation[];
+}) {
+  const bad = new Set<string>();
+  for (const v of violations) {
+    if (v.kind === "overlap") v.ids.forEach((id) => bad.add(id));
+    else bad.add(v.id);
+  }
+
+  return (
+    <div aria-hidden className="fixed inset-0 z-[70] pointer-events-none font-mono text-[11px]">
+      <svg className="absolute inset-0 h-full w-full">
+        {report && <Rect b={report.area} stroke="#22d3ee" strokeDasharray="8 6" />}
+        {placed.map((p) => {
+          const box = collisionBox(p);
+          const info = report?.items[p.id];
+          const color = bad.has(p.id) ? "#ef4444" : "#4ade80";
+          return (
+            <g key={p.id}>
+              {info && report && !sameBounds(info.area, report.area) && (
+                <Rect b={info.area} stroke="#facc15" strokeDasharray="4 4" strokeOpacity={0.6} />
+              )}
+              {/* The visibleFrac edge: past this range the item shows less than visibleFrac */}
+              {info && <Rect b={info.center} stroke={color} strokeDasharray="2 3" strokeOpacity={0.7} />}
+              {report && (
+                <polygon points={obbPoints(box, report.paddingPx / 2)} fill="none" stroke={color} strokeOpacity={0.35} strokeDasharray="3 3" />
+              )}
+              <polygon points={obbPoints(box)} fill={bad.has(p.id) ? "rgba(239,68,68,0.25)" : "none"} stroke={color} strokeWidth={1.5} />
+              <circle cx={p.cx} cy={p.cy} r={3} fill={color} />
+              <text x={p.cx + 6} y={p.cy - 6} fill={color} stroke="black" strokeWidth={3} paintOrder="stroke">
+                {p.id}{info ? ` · ${Math.round(info.visibleFrac * 100)}%` : ""}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="absolute left-2 top-2 max-w-[22rem] space-y-0.5 rounded bg-black/80 p-2 text-white">
+        {report ? (
+          <>
+            <p>
+              {report.viewport.w}×{report.viewport.h} · {report.smallViewport ? "small viewport" : "large viewport"} · padding {Math.round(report.paddingPx)}px
+            </p>
+            <p className={report.scale < 1 ? "text-amber-400" : undefined}>
+              scale: {report.scale.toFixed(2)} after {report.attempts} attempt{report.attempts > 1 ? "s" : ""}
+            </p>
+            <p className={report.converged ? "text-green-400" : "text-amber-400"}>
+              relax: {report.iterations}/{report.maxIterations} iterations, {report.converged ? "converged" : "did not converge"}
+            </p>
+          </>
+        ) : (
+          <p>no layout report</p>
+        )}
+        <p className={violations.length ? "text-red-400" : "text-green-400"}>
+          {violations.length ? `${violations.length} violation${violations.length > 1 ? "s" : ""}` : "no violations"}
+        </p>
+        {violations.map((v, i) => (
+          <p key={i} className="text-red-400">
+            {v.kind === "overlap"
+              ? `overlap ${v.ids[0]} × ${v.ids[1]} by ${v.depth.toFixed(1)}px`
+              : `${v.id} off-screen by ${v.byPx.toFixed(1)}px`}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import React, { useEffect, useRef, useState } from "react";
+import { motion, type HTMLMotionProps } from "framer-motion";
+import { blurPlaceholder, imageMeta, imageSources } from "../lib/images";
+
+/**
+ * A public image as a <picture> of its AVIF / WebP variants, picked by `sizes` (the width
+ * it's drawn at, like "240px"). Its blurred placeholder shows underneath until the real
+ * image has loaded, and width/height from image-meta reserve the space before that.
+ * Takes motion props, so it can carry a layoutId.
+ */
+export function ResponsiveImage({
+  src,
+  sizes,
+  style,
+  onLoad,
+  ...rest
+}: Omit<HTMLMotionProps<"img">, "src" | "sizes"> & { src: string; sizes: string }) {
+  const img = useRef<HTMLImageElement>(null);
+  const [loaded, setLoaded] = useState(false);
+  const meta = imageMeta(src);
+  const placeholder = blurPlaceholder(src);
+
+  // Cached images can finish before React attaches onLoad
+  useEffect(() => {
+    setLoaded(!!img.current?.complete && img.current.naturalWidth > 0);
+  }, [src]);
+
+  return (
+    <picture className="contents">
+      {imageSources(src).map((s) => (
+        <source key={s.type} type={s.type} srcSet={s.srcSet} sizes={sizes} />
+      ))}
+      <motion.img
+        ref={img}
+        src={src}
+        width={meta?.w}
+        height={meta?.h}
+        decoding="async"
+        onLoad={(e) => {
+          setLoaded(true);
+          onLoad?.(e);
+        }}
+        style={{
+          ...(placeholder && !loaded && { backgroundImage: `url("${placeholder}")`, backgroundSize: "cover", backgroundPosition: "center" }),
+          ...style,
+        }}
+        {...rest}
+      />
+    </picture>
+  );
+}
@@ -0,0 +1,236 @@
+import React, { Component, Suspense, useEffect, useMemo, useRef, useState } from "react";
+import { Canvas, useFrame, type ThreeEvent } from "@react-three/fiber";
+import { useTexture } from "@react-three/drei";
+import * as THREE from "three";
+import type { MotionValue } from "framer-motion";
+import type { PlacedPx } from "../../lib/layout";
+import type { SceneItem } from "../../lib/scene";
+
+/**
+ * The festival ground as a WebGL scene: the background is a textured plane and every item a
+ * thin textured mesh at its PlacedPx spot. World units are viewport px (y up), and the camera
+ * sits at the distance where the ground fills the viewport, so items land where the DOM
+ * scene would put them, tilted slightly and lit from above.
+ */
+
+export type Ground3DItem = {
+  item: SceneItem;
+  placed: PlacedPx;
+  /** Drag offsets from the DOM scene, read every frame */
+  offset?: { x: MotionValue<number>; y: MotionValue<number> };
+};
+
+const FOV = 35;             // degrees, vertical
+const TILT = 0.12;          // camera drop below the center, as a fraction of its distance
+const POINTER_SWAY = 0.05;  // how far the camera drifts toward the pointer, same units
+const FOLLOW_RATE = 3;      // 1/s, how quickly it catches up
+const SETTLE_RATE = 8;      // 1/s, how quickly items glide to a new layout spot
+const GROUND_OVERSCAN = 1.5; // the tilt shows past the viewport edges
+const LIFT = 3;             // px above the ground for the lowest item
+const LIFT_PER_Z = 0.15;    // px per stacking step
+const SLAB = 3;             // px thickness of opaque items
+const ALPHA_CUTOFF = 0.5;
+const DEG = Math.PI / 180;
+
+/** Crops a texture like CSS background-size: cover for a box of the given width / height. */
+function coverTexture(source: THREE.Texture, boxAspect: number) {
+  const tex = source.clone();
+  const img = tex.image as { width: number; height: number };
+  const imgAspect = img.width / img.height;
+  if (imgAspect > boxAspect) tex.repeat.set(boxAspect / imgAspect, 1);
+  else tex.repeat.set(1, imgAspect / boxAspect);
+  tex.offset.set((1 - tex.repeat.x) / 2, (1 - tex.repeat.y) / 2);
+  tex.colorSpace = THREE.SRGBColorSpace;
+  tex.anisotropy = 4;
+  tex.needsUpdate = true;
+  return tex;
+}
+
+/** Drops the canvas on any render or texture error so the page can go back to the DOM scene. */
+class WebGLBoundary extends Component<{ onError: () => void; children: React.ReactNode }, { failed: boolean }> {
+  state = { failed: false };
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+  componentDidCatch() {
+    this.props.onError();
+  }
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
+
+export default function GroundScene3D({
+  items,
+  viewport,
+  backgroundUrl,
+  reduceMotion,
+  onOpen,
+  onPreload,
+  onUnavailable,
+}: {
+  items: Ground3DItem[];
+  viewport: { w: number; h: number };
+  backgroundUrl: string;
+  reduceMotion: boolean;
+  onOpen: (item: SceneItem) => void;
+  /** Pointer came over an item: fetch what it opens onto */
+  onPreload?: (item: SceneItem) => void;
+  onUnavailable: () => void;
+}) {
+  const dist = viewport.h / 2 / Math.tan((FOV / 2) * DEG);
+  const span = Math.max(viewport.w, viewport.h) * GROUND_OVERSCAN;
+
+  // Detached on unmount, so toggling back to the DOM scene doesn't leave it on the old canvas
+  const lost = useRef<{ canvas: HTMLCanvasElement; listener: () => void } | null>(null);
+  useEffect(() => () => {
+    if (lost.current) lost.current.canvas.removeEventListener("webglcontextlost", lost.current.listener);
+    lost.current = null;
+  }, []);
+
+  return (
+    <WebGLBoundary onError={onUnavailable}>
+      <Canvas
+        shadows
+        dpr={[1, 2]}
+        camera={{ fov: FOV, near: dist / 10, far: dist * 4, position: [0, -dist * TILT, dist] }}
+        onCreated={({ gl }) => {
+          gl.domElement.addEventListener("webglcontextlost", onUnavailable);
+          lost.current = { canvas: gl.domElement, listener: onUnavailable };
+        }}
+        style={{ position: "absolute", inset: 0 }}
+      >
+        <Suspense fallback={null}>
+          <CameraRig dist={dist} reduceMotion={reduceMotion} />
+          <ambientLight intensity={0.9} />
+          <directionalLight
+            castShadow
+            position={[-dist * 0.25, dist * 0.35, dist]}
+            intensity={1.6}
+            shadow-mapSize={[2048, 2048]}
+            shadow-bias={-0.0005}
+            shadow-camera-left={-span / 2}
+            shadow-camera-right={span / 2}
+            shadow-camera-top={span / 2}
+            shadow-camera-bottom={-span / 2}
+            shadow-camera-near={dist / 10}
+            shadow-camera-far={dist * 3}
+          />
+          <GroundPlane url={backgroundUrl} width={viewport.w * GROUND_OVERSCAN} height={viewport.h * GROUND_OVERSCAN} />
+          {items.map((g) => (
+            <ItemMesh key={g.item.id} {...g} viewport={viewport} reduceMotion={reduceMotion} onOpen={onOpen} onPreload={onPreload} />
+          ))}
+        </Suspense>
+      </Canvas>
+    </WebGLBoundary>
+  );
+}
+
+/** Keeps the camera aimed at the center while it eases toward the pointer. */
+function CameraRig({ dist, reduceMotion }: { dist: number; reduceMotion: boolean }) {
+  useFrame(({ camera, pointer }, dt) => {
+    const sway = reduceMotion ? 0 : POINTER_SWAY * dist;
+    const k = 1 - Math.exp(-FOLLOW_RATE * dt);
+    camera.position.x += (pointer.x * sway - camera.position.x) * k;
+    camera.position.y += (-dist * TILT + pointer.y * sway - camera.position.y) * k;
+    camera.lookAt(0, 0, 0);
+  });
+  return null;
+}
+
+function GroundPlane({ url, width, height }: { url: string; width: number; height: number }) {
+  const source = useTexture(url);
+  const map = useMemo(() => coverTexture(source, width / height), [source, width, height]);
+  return (
+    <mesh receiveShadow>
+      <planeGeometry args={[width, height]} />
+      {/* Tinted like the DOM scene's black/25 veil */}
+      <meshStandardMaterial map={map} color="#c0c0c0" roughness={1} />
+    </mesh>
+  );
+}
+
+function ItemMesh({
+  item,
+  placed,
+  offset,
+  viewport,
+  reduceMotion,
+  onOpen,
+  onPreload,
+}: Ground3DItem & {
+  viewport: { w: number; h: number };
+  reduceMotion: boolean;
+  onOpen: (item: SceneItem) => void;
+  onPreload?: (item: SceneItem) => void;
+}) {
+  const source = useTexture(item.image);
+  const w = placed.widthPx;
+  const h = placed.heightPx;
+  const map = useMemo(() => coverTexture(source, w / h), [source, w, h]);
+  // PNG cut-outs are flat decals with alpha-tested shadows; everything else is a thin slab
+  const cutout = /\.png$/i.test(item.image);
+  const depth = useMemo(
+    () => new THREE.MeshDepthMaterial({ depthPacking: THREE.RGBADepthPacking, map, alphaTest: ALPHA_CUTOFF }),
+    [map]
+  );
+
+  const group = useRef<THREE.Group>(null);
+  const [hovered, setHovered] = useState(false);
+  useEffect(() => {
+    if (!hovered) return;
+    document.body.style.cursor = "pointer";
+    return () => { document.body.style.cursor = ""; };
+  }, [hovered]);
+
+  const lift = LIFT + item.z * LIFT_PER_Z;
+  const target = useMemo(() => new THREE.Vector3(), []);
+  const placedOnce = useRef(false);
+  useFrame((_, dt) => {
+    const g = group.current;
+    if (!g) return;
+    target.set(
+      placed.cx + (offset?.x.get() ?? 0) - viewport.w / 2,
+      viewport.h / 2 - placed.cy - (offset?.y.get() ?? 0),
+      lift + (hovered ? LIFT * 2 : 0)
+    );
+    // Re-layouts glide; the first frame and reduced motion jump straight there
+    if (!placedOnce.current || reduceMotion) g.position.copy(target);
+    else g.position.lerp(target, 1 - Math.exp(-SETTLE_RATE * dt));
+    placedOnce.current = true;
+  });
+
+  // Clicks land on the opaque part only, the same box the layout keeps apart
+  const [x0, y0, x1, y1] = placed.hitbox ?? [0, 0, 1, 1];
+  const onClick = (e: ThreeEvent<MouseEvent>) => {
+    e.stopPropagation();
+    onOpen(item);
+  };
+
+  return (
+    <group ref={group} rotation={[0, 0, -placed.rot * DEG]}>
+      {cutout ? (
+        <mesh castShadow customDepthMaterial={depth}>
+          <planeGeometry args={[w, h]} />
+          <meshStandardMaterial map={map} alphaTest={ALPHA_CUTOFF} roughness={0.8} />
+        </mesh>
+      ) : (
+        <mesh castShadow position={[0, 0, -SLAB / 2]}>
+          <boxGeometry args={[w, h, SLAB]} />
+          {[0, 1, 2, 3].map((i) => <meshStandardMaterial key={i} attach={`material-${i}`} color="#1a1a1a" />)}
+          <meshStandardMaterial attach="material-4" map={map} roughness={0.7} />
+          <meshStandardMaterial attach="material-5" color="#1a1a1a" />
+        </mesh>
+      )}
+      <mesh
+        position={[((x0 + x1) / 2 - 0.5) * w, (0.5 - (y0 + y1) / 2) * h, 1]}
+        onClick={onClick}
+        onPointerOver={(e) => { e.stopPropagation(); setHovered(true); onPreload?.(item); }}
+        onPointerOut={() => setHovered(false)}
+      >
+        <planeGeometry args={[(x1 - x0) * w, (y1 - y0) * h]} />
+        <meshBasicMaterial colorWrite={false} depthWrite={false} />
+      </mesh>
+    </group>
+  );
+}
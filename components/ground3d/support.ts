@@ -0,0 +1,9 @@
+/** True when the browser can create a WebGL context (checked once; the canvas is thrown away). */
+export function webglAvailable(): boolean {
+  try {
+    const canvas = document.createElement("canvas");
+    return !!(canvas.getContext("webgl2") || canvas.getContext("webgl"));
+  } catch {
+    return false;
+  }
+}
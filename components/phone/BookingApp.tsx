@@ -0,0 +1,175 @@
+import React, { useRef, useState } from "react";
+import { AlertTriangle, CheckCircle2, Loader2, Mail, Send } from "lucide-react";
+import { PROFILE } from "../../lib/profile";
+import {
+  BOOKING_FORM_NAME,
+  BOOKING_POST_URL,
+  BUDGETS,
+  EMPTY_INQUIRY,
+  EVENT_TYPES,
+  HONEYPOT_FIELD,
+  bookingMailto,
+  localToday,
+  netlifyFormBody,
+  validateBooking,
+  type BookingErrors,
+  type BookingInquiry,
+} from "../../lib/booking";
+import { useI18n } from "../useI18n";
+
+type Status = "editing" | "sending" | "sent" | "failed";
+
+const inputClass =
+  "w-full rounded-lg bg-white/5 px-3 py-2 text-sm ring-1 ring-white/10 placeholder:text-white/30 focus:outline-none focus:ring-2 focus:ring-rose-500 aria-[invalid=true]:ring-red-500";
+
+/** Booking inquiry: validated in the browser, sent to Netlify Forms, with a prefilled email as the fallback. */
+export function BookingApp() {
+  const { t } = useI18n();
+  const m = t.booking;
+  const [values, setValues] = useState<BookingInquiry>(EMPTY_INQUIRY);
+  const [errors, setErrors] = useState<BookingErrors>({});
+  const [status, setStatus] = useState<Status>("editing");
+  const form = useRef<HTMLFormElement>(null);
+  const today = localToday();
+  // Without a booking address there's no email fallback, only the form
+  const mailto = PROFILE.email && bookingMailto(values, PROFILE.email);
+
+  const set = (k: keyof BookingInquiry) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const v = e.target.value;
+    setValues((prev) => ({ ...prev, [k]: v }));
+    // Re-check a field once it has been flagged, so the message clears as soon as it's fixed
+    if (errors[k]) setErrors((prev) => ({ ...prev, [k]: validateBooking({ ...values, [k]: v }, today, m.errors)[k] }));
+  };
+
+  const onSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const found = validateBooking(values, today, m.errors);
+    setErrors(found);
+    const first = Object.keys(found)[0];
+    if (first) {
+      form.current?.querySelector<HTMLElement>(`[name="${first}"]`)?.focus();
+      return;
+    }
+
+    // Only bots fill the honeypot: act as if it worked and send nothing
+    const trap = form.current?.elements.namedItem(HONEYPOT_FIELD) as HTMLInputElement | null;
+    if (trap?.value) { setStatus("sent"); return; }
+
+    setStatus("sending");
+    try {
+      const res = await fetch(BOOKING_POST_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: netlifyFormBody(values),
+      });
+      setStatus(res.ok ? "sent" : "failed");
+    } catch {
+      setStatus("failed");
+    }
+  };
+
+  if (status === "sent") {
+    return (
+      <div role="status" className="p-6 text-center space-y-3">
+        <CheckCircle2 className="mx-auto h-10 w-10 text-emerald-400" />
+        <h3 className="text-base font-semibold">{m.sent}</h3>
+        <p className="text-sm opacity-80">{m.thanks(values.name.trim().split(/\s+/)[0], values.email.trim())}</p>
+        <button onClick={() => { setValues(EMPTY_INQUIRY); setStatus("editing"); }} className="text-xs underline opacity-70">
+          {m.sendAnother}
+        </button>
+      </div>
+    );
+  }
+
+  const field = (k: keyof BookingInquiry, control: React.ReactElement, hint?: string) => (
+    <div className="space-y-1">
+      <label htmlFor={`booking-${k}`} className="block text-xs font-medium opacity-80">{m.fields[k]}</label>
+      {React.cloneElement(control, {
+        id: `booking-${k}`,
+        name: k,
+        value: values[k],
+        onChange: set(k),
+        "aria-invalid": !!errors[k],
+        "aria-describedby": errors[k] ? `booking-${k}-error` : undefined,
+        className: inputClass,
+      })}
+      {errors[k] ? (
+        <p id={`booking-${k}-error`} className="text-[11px] text-red-400">{errors[k]}</p>
+      ) : hint ? (
+        <p className="text-[11px] opacity-50">{hint}</p>
+      ) : null}
+    </div>
+  );
+
+  return (
+    <form
+      ref={form}
+      name={BOOKING_FORM_NAME}
+      method="POST"
+      action={BOOKING_POST_URL}
+      data-netlify="true"
+      netlify-honeypot={HONEYPOT_FIELD}
+      noValidate
+      onSubmit={onSubmit}
+      className="p-4 space-y-3"
+    >
+      <input type="hidden" name="form-name" value={BOOKING_FORM_NAME} />
+      <p aria-hidden className="absolute -left-[9999px]">
+        <label>
+          {m.honeypot} <input name={HONEYPOT_FIELD} tabIndex={-1} autoComplete="off" />
+        </label>
+      </p>
+
+      <p className="text-xs opacity-70">{m.intro}</p>
+
+      {field("date", <input type="date" min={today} />)}
+      {field("eventType", (
+        <select>
+          <option value="" disabled>{m.choose}</option>
+          {EVENT_TYPES.map((type) => <option key={type} value={type}>{m.eventTypes[type]}</option>)}
+        </select>
+      ))}
+      {field("location", <input type="text" placeholder={m.locationPlaceholder} autoComplete="address-level2" />)}
+      {field("budget", (
+        <select>
+          <option value="" disabled>{m.choose}</option>
+          {BUDGETS.map((b) => <option key={b} value={b}>{m.budgets[b]}</option>)}
+        </select>
+      ))}
+      {field("message", <textarea rows={4} placeholder={m.messagePlaceholder} />)}
+      {field("name", <input type="text" autoComplete="name" />)}
+      {field("email", <input type="email" autoComplete="email" inputMode="email" />)}
+      {field("phone", <input type="tel" autoComplete="tel" />, m.optional)}
+
+      {status === "failed" && (
+        <div role="alert" className="flex gap-2 rounded-lg bg-red-500/15 p-3 text-xs ring-1 ring-red-500/30">
+          <AlertTriangle className="h-4 w-4 shrink-0 text-red-400" />
+          {PROFILE.email && mailto ? (
+            <div className="space-y-1.5">
+              <p>{m.failed}</p>
+              <a href={mailto} className="inline-flex items-center gap-1.5 font-semibold underline">
+                <Mail className="h-3.5 w-3.5" /> {m.emailTo(PROFILE.email)}
+              </a>
+            </div>
+          ) : (
+            <p>{m.failedRetry}</p>
+          )}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={status === "sending"}
+        className="w-full inline-flex items-center justify-center gap-2 rounded-lg bg-rose-600 px-3 py-2.5 text-sm font-semibold disabled:opacity-60"
+      >
+        {status === "sending" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+        {status === "sending" ? m.sending : m.send}
+      </button>
+      {mailto && (
+        <p className="text-center text-[11px] opacity-60">
+          {m.preferEmail} <a href={mailto} className="underline">{m.openMail}</a>
+        </p>
+      )}
+    </form>
+  );
+}
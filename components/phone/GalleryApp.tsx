@@ -0,0 +1,181 @@
+import React, { useEffect, useRef, useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { ChevronLeft, ChevronRight, X as CloseX } from "lucide-react";
+import { ALBUMS, albumCover, photoCredit, type Album } from "../../lib/gallery";
+import { usePinchZoom } from "../usePinchZoom";
+import { ResponsiveImage } from "../ResponsiveImage";
+import { useI18n } from "../useI18n";
+
+const SWIPE_DISTANCE = 60;  // px
+const SWIPE_VELOCITY = 500; // px/s
+const THUMB_SIZES = "200px"; // a grid cell covered by a 3:2 photo
+
+const formatShootDate = (tag: string, iso?: string) =>
+  iso ? new Date(iso).toLocaleDateString(tag, { month: "short", year: "numeric", timeZone: "UTC" }) : null;
+
+/** Albums → thumbnail grid → swipeable, zoomable lightbox; all inside the phone. */
+export function GalleryApp({ albums = ALBUMS }: { albums?: readonly Album[] }) {
+  const { t, tag } = useI18n();
+  const [albumId, setAlbumId] = useState<string | null>(null);
+  const [photoIndex, setPhotoIndex] = useState<number | null>(null);
+  const album = albums.find((a) => a.id === albumId);
+
+  if (!albums.length) return <p className="p-6 text-center text-sm opacity-60">{t.gallery.empty}</p>;
+
+  if (!album) {
+    return (
+      <ul className="grid grid-cols-2 gap-3 p-3">
+        {albums.map((a) => (
+          <li key={a.id}>
+            <button onClick={() => setAlbumId(a.id)} className="block w-full text-left group">
+              <div className="aspect-square overflow-hidden rounded-xl bg-white/5">
+                <ResponsiveImage src={albumCover(a)} sizes={THUMB_SIZES} alt="" loading="lazy" className="h-full w-full object-cover motion-safe:group-hover:scale-105 transition-transform" />
+              </div>
+              <div className="mt-1.5 text-xs font-semibold leading-tight">{a.title}</div>
+              <div className="text-[11px] opacity-60">
+                {t.gallery.photos(a.photos.length)}{a.date ? ` · ${formatShootDate(tag, a.date)}` : ""}
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+    );
+  }
+
+  return (
+    <div>
+      <div className="sticky top-0 z-10 flex items-center gap-1 px-2 py-2 bg-neutral-950/90 backdrop-blur">
+        <button onClick={() => { setAlbumId(null); setPhotoIndex(null); }} className="inline-flex items-center gap-0.5 px-1.5 py-1 rounded-full text-xs hover:bg-white/10">
+          <ChevronLeft className="h-4 w-4" /> {t.gallery.albums}
+        </button>
+      </div>
+      <div className="px-3 pb-2">
+        <h3 className="text-base font-semibold">{album.title}</h3>
+        <div className="text-[11px] opacity-60">
+          {[formatShootDate(tag, album.date), album.location].filter(Boolean).join(" · ")}
+        </div>
+      </div>
+      <ul className="grid grid-cols-3 gap-0.5 p-0.5">
+        {album.photos.map((p, i) => (
+          <li key={p.src} className="aspect-square overflow-hidden bg-white/5">
+            <button onClick={() => setPhotoIndex(i)} className="block h-full w-full" aria-label={t.gallery.open(i + 1, p.alt)}>
+              <ResponsiveImage src={p.src} sizes={THUMB_SIZES} alt="" loading="lazy" className="h-full w-full object-cover" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <AnimatePresence>
+        {photoIndex != null && (
+          <Lightbox album={album} index={photoIndex} onIndex={setPhotoIndex} onClose={() => setPhotoIndex(null)} />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+const slide = {
+  enter: (dir: number) => ({ x: `${dir * 100}%`, opacity: 0.4 }),
+  center: { x: "0%", opacity: 1 },
+  exit: (dir: number) => ({ x: `${dir * -100}%`, opacity: 0.4 }),
+};
+
+function Lightbox({
+  album,
+  index,
+  onIndex,
+  onClose,
+}: {
+  album: Album;
+  index: number;
+  onIndex: (i: number) => void;
+  onClose: () => void;
+}) {
+  const { t } = useI18n();
+  const [dir, setDir] = useState(0);
+  const count = album.photos.length;
+  const photo = album.photos[index];
+  const credit = photoCredit(album, photo);
+
+  const go = (d: 1 | -1) => {
+    const next = index + d;
+    if (next < 0 || next >= count) return;
+    setDir(d);
+    onIndex(next);
+  };
+
+  const zoom = usePinchZoom({
+    onSwipeEnd: (dx, vx) => {
+      if (dx < -SWIPE_DISTANCE || vx < -SWIPE_VELOCITY) go(1);
+      else if (dx > SWIPE_DISTANCE || vx > SWIPE_VELOCITY) go(-1);
+    },
+  });
+  const { reset } = zoom;
+  useEffect(() => { reset(); }, [index, reset]);
+
+  const closeRef = useRef<HTMLButtonElement>(null);
+  useEffect(() => { closeRef.current?.focus(); }, []);
+
+  return (
+    <motion.div
+      role="dialog"
+      aria-label={t.gallery.position(album.title, index + 1, count)}
+      className="absolute inset-0 z-30 flex flex-col bg-black"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.2 }}
+      onKeyDown={(e) => {
+        if (e.key === "ArrowRight") go(1);
+        else if (e.key === "ArrowLeft") go(-1);
+        else if (e.key === "Escape") { e.stopPropagation(); onClose(); }
+      }}
+    >
+      <div className="flex items-center justify-between h-10 px-2 text-xs">
+        <button ref={closeRef} onClick={onClose} aria-label={t.gallery.close} className="p-1.5 rounded-full hover:bg-white/10">
+          <CloseX className="h-4 w-4" />
+        </button>
+        <span className="opacity-70" aria-live="polite">{index + 1} / {count}</span>
+        <span className="w-7" />
+      </div>
+
+      <div ref={zoom.ref} {...zoom.handlers} className="relative flex-1 overflow-hidden touch-none select-none">
+        <motion.div className="absolute inset-0" style={{ x: zoom.swipeX }}>
+          <AnimatePresence initial={false} custom={dir}>
+            <motion.div
+              key={index}
+              custom={dir}
+              variants={slide}
+              initial="enter"
+              animate="center"
+              exit="exit"
+              transition={{ type: "tween", duration: 0.28, ease: [0.2, 0.8, 0.2, 1] }}
+              className="absolute inset-0"
+            >
+              <motion.img
+                src={photo.src}
+                alt={photo.alt}
+                draggable={false}
+                style={{ scale: zoom.scale, x: zoom.x, y: zoom.y }}
+                className="h-full w-full object-contain"
+              />
+            </motion.div>
+          </AnimatePresence>
+        </motion.div>
+      </div>
+
+      <div className="relative pl-3 pr-20 py-2 text-xs space-y-0.5 min-h-[3.5rem]">
+        {photo.caption && <p>{photo.caption}</p>}
+        {credit && <p className="opacity-60">{credit}</p>}
+        <div className="absolute right-2 top-2 flex gap-1">
+          <button onClick={() => go(-1)} disabled={index === 0} aria-label={t.gallery.previous} className="p-1.5 rounded-full bg-white/10 disabled:opacity-30">
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <button onClick={() => go(1)} disabled={index === count - 1} aria-label={t.gallery.next} className="p-1.5 rounded-full bg-white/10 disabled:opacity-30">
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,69 @@
+import React from "react";
+import { CalendarCheck, Images, Link2, Lock, Mail, User } from "lucide-react";
+import { useBatteryLevel, useClock } from "./useClock";
+import { useI18n } from "../useI18n";
+import { ResponsiveImage } from "../ResponsiveImage";
+import { WALLPAPER_SIZES, type PhoneAppId } from "./types";
+
+/** Home-screen icons, in grid order; names come from the locale's phone.appNames. */
+export const PHONE_APPS: { id: PhoneAppId; icon: React.ElementType; tint: string }[] = [
+  { id: "book", icon: CalendarCheck, tint: "bg-rose-600" },
+  { id: "bio", icon: User, tint: "bg-amber-500" },
+  { id: "gallery", icon: Images, tint: "bg-fuchsia-600" },
+  { id: "contact", icon: Mail, tint: "bg-sky-600" },
+  { id: "links", icon: Link2, tint: "bg-emerald-600" },
+];
+
+/** Network and battery, with the percentage written the locale's way ("100%", "100 %"). */
+export function PhoneStatusIcons() {
+  const { tag } = useI18n();
+  const battery = useBatteryLevel();
+  return <span>5G • {new Intl.NumberFormat(tag, { style: "percent" }).format(battery)}</span>;
+}
+
+/** Status bar shared by the home screen and open apps; the lock icon re-locks the phone. */
+export function PhoneStatusBar({ onLock }: { onLock: () => void }) {
+  const { t } = useI18n();
+  const { time } = useClock();
+  return (
+    <div className="relative z-10 h-6 px-4 flex items-center justify-between text-[10px] opacity-90">
+      <span>{time}</span>
+      <span className="inline-flex items-center gap-2">
+        <PhoneStatusIcons />
+        <button onClick={onLock} aria-label={t.phone.lock} className="p-0.5 -m-0.5 rounded hover:bg-white/20">
+          <Lock className="h-3 w-3" />
+        </button>
+      </span>
+    </div>
+  );
+}
+
+export function HomeScreen({
+  wallpaperUrl,
+  onOpen,
+  onLock,
+}: {
+  wallpaperUrl: string;
+  onOpen: (app: PhoneAppId) => void;
+  onLock: () => void;
+}) {
+  const { t } = useI18n();
+  return (
+    <div className="relative h-full w-full">
+      <ResponsiveImage src={wallpaperUrl} sizes={WALLPAPER_SIZES} alt="" draggable={false} className="absolute inset-0 h-full w-full object-cover scale-105 blur-[2px]" />
+      <div className="absolute inset-0 bg-black/45" />
+      <PhoneStatusBar onLock={onLock} />
+
+      <nav aria-label={t.phone.apps} className="relative mt-10 px-5 grid grid-cols-4 gap-x-3 gap-y-5">
+        {PHONE_APPS.map(({ id, icon: Icon, tint }) => (
+          <button key={id} onClick={() => onOpen(id)} className="flex flex-col items-center gap-1.5 group">
+            <span className={`grid place-items-center h-12 w-12 rounded-2xl ${tint} shadow-lg ring-1 ring-white/20 group-hover:brightness-110 group-active:scale-95 transition`}>
+              <Icon className="h-6 w-6" />
+            </span>
+            <span className="text-[11px] leading-none">{t.phone.appNames[id]}</span>
+          </button>
+        ))}
+      </nav>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import React from "react";
+import { Facebook, Globe, Instagram, Music2, TreePine, Twitter, Video, Youtube } from "lucide-react";
+import type { LinkPlatform } from "../../lib/links";
+import type { PhoneLink } from "./types";
+
+export const PLATFORM_ICONS: Record<LinkPlatform, React.ElementType> = {
+  instagram: Instagram,
+  facebook: Facebook,
+  x: Twitter,
+  youtube: Youtube,
+  spotify: Music2,
+  tiktok: Video,
+  linktree: TreePine,
+  website: Globe,
+};
+
+/**
+ * A lock-screen banner in the platform's colors. Featured links get the tall version with
+ * the handle and a call-to-action pill; the rest are a single compact row.
+ */
+export function LinkBanner({ link }: { link: PhoneLink }) {
+  const { label, href, handle, cta, brand, featured, icon: Icon } = link;
+  return (
+    <a
+      href={href}
+      target="_blank"
+      rel="noreferrer"
+      draggable={false}
+      aria-label={`${label}${handle ? ` ${handle}` : ""}: ${cta}`}
+      style={{ background: brand.background, color: brand.text }}
+      className={`flex items-center gap-3 rounded-md ring-1 ring-white/20 shadow-sm ${featured ? "px-3 py-3" : "px-3 py-1.5"}`}
+    >
+      <Icon className={`shrink-0 ${featured ? "h-7 w-7" : "h-4 w-4"}`} />
+      <span className="min-w-0 flex-1 leading-tight">
+        <span className={`block font-semibold ${featured ? "text-sm" : "text-xs"}`}>{label}</span>
+        {featured && handle && <span className="block truncate text-[11px] opacity-80">{handle}</span>}
+      </span>
+      <span className={featured ? "rounded-full px-2.5 py-1 text-[11px] font-semibold ring-1 ring-current" : "text-[11px] opacity-80"}>
+        {cta}
+      </span>
+    </a>
+  );
+}
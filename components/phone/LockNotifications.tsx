@@ -0,0 +1,221 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { ChevronDown, ExternalLink, X as CloseX } from "lucide-react";
+import { useI18n } from "../useI18n";
+import type { Messages } from "../../lib/i18n";
+import type { PhoneNotification } from "./types";
+
+const DISMISS_DISTANCE = 110; // px swiped sideways
+const DISMISS_VELOCITY = 600; // px/s flick
+const ENTER_DELAY = 0.45;     // s after the phone opens
+const ENTER_STAGGER = 0.3;    // s between cards
+
+/** Android-style short relative time. */
+const ago = (minutes: number, units: Messages["phone"]["ago"]) =>
+  minutes < 1 ? units.now
+    : minutes < 60 ? units.minutes(Math.round(minutes))
+    : minutes < 1440 ? units.hours(Math.round(minutes / 60))
+    : units.days(Math.round(minutes / 1440));
+
+type Group = { app: string; items: PhoneNotification[] };
+
+/** Newest group first, newest card first inside each group. */
+function groupByApp(list: PhoneNotification[]): Group[] {
+  const groups: Group[] = [];
+  for (const n of [...list].sort((a, b) => a.minutesAgo - b.minutesAgo)) {
+    const g = groups.find((x) => x.app === n.app);
+    if (g) g.items.push(n);
+    else groups.push({ app: n.app, items: [n] });
+  }
+  return groups;
+}
+
+/**
+ * Lock-screen notification cards: stacked per app, tap to expand, swipe sideways to
+ * dismiss (or use the Dismiss button). Cards slide in one by one after the phone opens.
+ */
+export function LockNotifications({ notifications }: { notifications: PhoneNotification[] }) {
+  const { t } = useI18n();
+  const [dismissed, setDismissed] = useState<string[]>([]);
+  const [openApps, setOpenApps] = useState<string[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [exitDir, setExitDir] = useState(1);
+
+  const groups = useMemo(
+    () => groupByApp(notifications.filter((n) => !dismissed.includes(n.id))),
+    [notifications, dismissed]
+  );
+
+  // Entrance order of the cards visible on first render; anything revealed later appears at once
+  const entrance = useRef<Record<string, number> | null>(null);
+  if (!entrance.current) {
+    entrance.current = {};
+    let i = 0;
+    for (const g of groups) entrance.current[g.items[0].id] = i++;
+  }
+  const delayFor = (id: string) => {
+    const i = entrance.current?.[id];
+    return i == null ? 0 : ENTER_DELAY + i * ENTER_STAGGER;
+  };
+
+  const dismiss = (n: PhoneNotification, dir: number) => {
+    setExitDir(dir || 1);
+    setDismissed((d) => [...d, n.id]);
+  };
+  const toggleApp = (app: string) =>
+    setOpenApps((open) => (open.includes(app) ? open.filter((a) => a !== app) : [...open, app]));
+
+  return (
+    <ul aria-label={t.phone.notifications} className="space-y-2">
+      <AnimatePresence initial={false} custom={exitDir}>
+        {groups.map((g) => {
+          const stacked = g.items.length > 1 && !openApps.includes(g.app);
+          const shown = stacked ? g.items.slice(0, 1) : g.items;
+          return (
+            <motion.li key={g.app} layout className="relative" exit={{ opacity: 0, height: 0 }}>
+              {g.items.length > 1 && (
+                <button
+                  onClick={() => toggleApp(g.app)}
+                  aria-expanded={!stacked}
+                  className="mb-1 ml-1 inline-flex items-center gap-1 text-[10px] opacity-90"
+                >
+                  {g.app} · {g.items.length}
+                  <ChevronDown className={`h-3 w-3 transition-transform ${stacked ? "" : "rotate-180"}`} />
+                </button>
+              )}
+              <div className="relative isolate space-y-1.5">
+                <AnimatePresence initial={false} custom={exitDir}>
+                  {shown.map((n) => (
+                    <NotificationCard
+                      key={n.id}
+                      n={n}
+                      delay={delayFor(n.id)}
+                      expanded={expanded === n.id}
+                      // Tapping a collapsed stack fans it out; tapping a card expands it
+                      onTap={() => (stacked ? toggleApp(g.app) : setExpanded((e) => (e === n.id ? null : n.id)))}
+                      onDismiss={(dir) => dismiss(n, dir)}
+                    />
+                  ))}
+                </AnimatePresence>
+                {stacked && (
+                  <div aria-hidden className="absolute left-2 right-2 -bottom-1.5 h-3 rounded-b-2xl bg-white/50 -z-10" />
+                )}
+              </div>
+            </motion.li>
+          );
+        })}
+      </AnimatePresence>
+    </ul>
+  );
+}
+
+const cardVariants = {
+  gone: (dir: number) => ({ x: dir * 360, opacity: 0, transition: { duration: 0.2 } }),
+};
+
+function NotificationCard({
+  n,
+  delay,
+  expanded,
+  onTap,
+  onDismiss,
+}: {
+  n: PhoneNotification;
+  delay: number;
+  expanded: boolean;
+  onTap: () => void;
+  onDismiss: (dir: number) => void;
+}) {
+  const { t } = useI18n();
+  const ref = useRef<HTMLDivElement>(null);
+  const dragged = useRef(false);
+  const Icon = n.appIcon;
+
+  // The lock screen itself is a vertical drag; a press on a card belongs to the card
+  useEffect(() => {
+    const el = ref.current;
+    const stop = (e: PointerEvent) => e.stopPropagation();
+    el?.addEventListener("pointerdown", stop);
+    return () => el?.removeEventListener("pointerdown", stop);
+  }, []);
+
+  return (
+    <motion.div
+      ref={ref}
+      layout
+      variants={cardVariants}
+      initial={{ opacity: 0, y: -12 }}
+      animate={{ opacity: 1, y: 0, transition: { delay, duration: 0.3 } }}
+      exit="gone"
+      drag="x"
+      dragSnapToOrigin
+      dragElastic={0.5}
+      onPointerDown={() => { dragged.current = false; }}
+      onDragStart={() => { dragged.current = true; }}
+      onDragEnd={(_, info) => {
+        if (Math.abs(info.offset.x) > DISMISS_DISTANCE || Math.abs(info.velocity.x) > DISMISS_VELOCITY) {
+          onDismiss(Math.sign(info.offset.x || info.velocity.x));
+        }
+      }}
+      className="rounded-2xl bg-white/85 text-neutral-900 backdrop-blur shadow-lg ring-1 ring-black/5 touch-pan-y"
+    >
+      <button
+        onClick={() => {
+          if (dragged.current) { dragged.current = false; return; }
+          onTap();
+        }}
+        aria-expanded={expanded}
+        className="block w-full text-left px-3 pt-2 pb-2.5"
+      >
+        <span className="flex items-center gap-1.5 text-[10px] text-neutral-600">
+          <span className={`grid place-items-center h-4 w-4 rounded-full text-white ${n.appTint ?? "bg-neutral-700"}`}>
+            <Icon className="h-2.5 w-2.5" />
+          </span>
+          {n.app}
+          <span aria-hidden>·</span>
+          <time>{ago(n.minutesAgo, t.phone.ago)}</time>
+        </span>
+        <span className="mt-1 flex items-start gap-2.5">
+          {n.avatar && <Avatar {...n.avatar} />}
+          <span className="min-w-0">
+            <span className="block text-xs font-semibold leading-snug">{n.title}</span>
+            <span className={`block text-xs leading-snug text-neutral-700 ${expanded ? "" : "truncate"}`}>{n.body}</span>
+          </span>
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="px-3 pb-3 space-y-2">
+          {n.image && <img src={n.image} alt="" draggable={false} className="w-full h-auto rounded-lg" />}
+          <div className="flex gap-2 text-[11px] font-medium">
+            {n.href && (
+              <a href={n.href} target="_blank" rel="noreferrer" className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full bg-neutral-900 text-white">
+                {t.phone.open} <ExternalLink className="h-3 w-3" />
+              </a>
+            )}
+            <button onClick={() => onDismiss(1)} className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full bg-neutral-900/10">
+              {t.phone.dismiss} <CloseX className="h-3 w-3" />
+            </button>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
+
+/** Round picture cut out of `src` (a square crop keeps it undistorted). */
+function Avatar({ src, crop = [0, 0, 1, 1] }: NonNullable<PhoneNotification["avatar"]>) {
+  const [x0, y0, x1, y1] = crop;
+  const pos = (start: number, size: number) => (size >= 1 ? 0 : (start / (1 - size)) * 100);
+  return (
+    <span
+      aria-hidden
+      className="shrink-0 h-9 w-9 rounded-full bg-neutral-300 bg-no-repeat"
+      style={{
+        backgroundImage: `url(${src})`,
+        backgroundSize: `${100 / (x1 - x0)}% ${100 / (y1 - y0)}%`,
+        backgroundPosition: `${pos(x0, x1 - x0)}% ${pos(y0, y1 - y0)}%`,
+      }}
+    />
+  );
+}
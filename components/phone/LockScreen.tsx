@@ -0,0 +1,67 @@
+import React from "react";
+import { Lock } from "lucide-react";
+import { useClock } from "./useClock";
+import { PhoneStatusIcons } from "./HomeScreen";
+import { useI18n } from "../useI18n";
+import { LockNotifications } from "./LockNotifications";
+import { LinkBanner } from "./LinkBanner";
+import { ResponsiveImage } from "../ResponsiveImage";
+import { WALLPAPER_SIZES, type PhoneLink, type PhoneNotification } from "./types";
+
+export function AndroidLockScreen({
+  links,
+  wallpaperUrl,
+  notifications = [],
+  onUnlock,
+}: {
+  links: PhoneLink[];
+  wallpaperUrl: string;
+  notifications?: PhoneNotification[];
+  onUnlock: () => void;
+}) {
+  const { t } = useI18n();
+  const { time, dayPeriod, date } = useClock();
+
+  return (
+    <div className="relative h-full w-full">
+      <ResponsiveImage src={wallpaperUrl} sizes={WALLPAPER_SIZES} alt="" draggable={false} className="absolute inset-0 h-full w-full object-cover" />
+      <div className="absolute inset-0 bg-black/35" />
+      <div className="absolute top-2 left-0 right-0 px-4 flex justify-between text-[10px] opacity-90">
+        <span>{time}</span>
+        <PhoneStatusIcons />
+      </div>
+      <div className="absolute left-0 right-0 top-16 text-center select-none">
+        <div className="text-6xl font-semibold tracking-tight">
+          {time}
+          {dayPeriod && <span className="ml-1 text-lg font-medium tracking-normal">{dayPeriod}</span>}
+        </div>
+        <div className="mt-1 text-xs opacity-90">{date}</div>
+      </div>
+
+      {/* Notifications + links wrapper (scrolls when the cards are expanded or the links run long) */}
+      <div className="absolute left-3 right-3 top-44 bottom-16 overflow-y-auto overscroll-contain">
+        <div data-analytics-source="notifications" className="px-3">
+          <LockNotifications notifications={notifications} />
+        </div>
+        {/* Quick links */}
+        <ul data-analytics-source="lock-screen" className="mt-3 space-y-2 px-3 pb-2">
+          {links.map((l) => (
+            <li key={l.href}>
+              <LinkBanner link={l} />
+            </li>
+          ))}
+        </ul>
+      </div>
+      <div className="absolute bottom-6 left-0 right-0 text-center text-xs opacity-90">
+        <div className="mx-auto mb-2 w-10 h-1.5 rounded-full bg-white/60" />
+        {/* Keyboard / tap equivalent of the swipe */}
+        <button
+          onClick={onUnlock}
+          className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-white/20"
+        >
+          <Lock className="h-3 w-3" /> {t.phone.swipeToUnlock}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import React, { useEffect, useRef, useState } from "react";
+import { AnimatePresence, motion, type PanInfo } from "framer-motion";
+import { AndroidLockScreen } from "./LockScreen";
+import { HomeScreen } from "./HomeScreen";
+import { AppView, BioApp, ContactApp, LinksApp } from "./apps";
+import { GalleryApp } from "./GalleryApp";
+import { BookingApp } from "./BookingApp";
+import type { PhoneAppId, PhoneLink, PhoneNotification, PhoneScreen } from "./types";
+import type { Album } from "../../lib/gallery";
+
+const UNLOCK_DISTANCE = 90;   // px swiped up
+const UNLOCK_VELOCITY = 450;  // px/s flick up
+
+/**
+ * The focused phone: a lock screen you swipe (or press ↑ / the pill) away,
+ * a home screen with an app grid behind it, and full-screen apps on top.
+ * Pass `screen` + `onScreenChange` to control it (e.g. from the URL).
+ */
+export function PhoneOS({
+  links,
+  wallpaperUrl,
+  notifications,
+  screen: controlled,
+  onScreenChange,
+  albums,
+}: {
+  links: PhoneLink[];
+  wallpaperUrl: string;
+  notifications?: PhoneNotification[];
+  screen?: PhoneScreen;
+  onScreenChange?: (screen: PhoneScreen) => void;
+  /** Gallery albums; defaults to the whole gallery */
+  albums?: readonly Album[];
+}) {
+  const [own, setOwn] = useState<PhoneScreen>("lock");
+  const screen = controlled ?? own;
+  const setScreen = (next: PhoneScreen) => {
+    setOwn(next);
+    onScreenChange?.(next);
+  };
+  const locked = screen === "lock";
+  const app: PhoneAppId | null = screen === "lock" || screen === "home" ? null : screen;
+
+  const unlock = () => setScreen("home");
+  const lock = () => setScreen("lock");
+
+  // Home + apps stay mounted under the lock screen (so it can slide away to reveal them) but inert while locked
+  const below = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    if (below.current) below.current.inert = locked;
+  }, [locked]);
+
+  // A swipe that starts on a lock-screen link must not also open it
+  const swiped = useRef(false);
+  const onSwipeEnd = (_: unknown, info: PanInfo) => {
+    if (info.offset.y < -UNLOCK_DISTANCE || info.velocity.y < -UNLOCK_VELOCITY) unlock();
+  };
+
+  return (
+    <div className="relative h-full w-full overflow-hidden">
+      <div ref={below} aria-hidden={locked} className="absolute inset-0">
+        <HomeScreen wallpaperUrl={wallpaperUrl} onOpen={setScreen} onLock={lock} />
+        <AnimatePresence>
+          {app && (
+            <motion.div
+              key={app}
+              className="absolute inset-0"
+              initial={{ x: "100%" }}
+              animate={{ x: 0 }}
+              exit={{ x: "100%" }}
+              transition={{ type: "tween", duration: 0.25, ease: [0.2, 0.8, 0.2, 1] }}
+            >
+              <AppView app={app} onBack={() => setScreen("home")} onLock={lock}>
+                {app === "bio" && <BioApp links={links} />}
+                {app === "book" && <BookingApp />}
+                {app === "contact" && <ContactApp links={links} onBook={() => setScreen("book")} />}
+                {app === "gallery" && <GalleryApp albums={albums} />}
+                {app === "links" && <LinksApp links={links} />}
+              </AppView>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+
+      <AnimatePresence initial={false}>
+        {locked && (
+          <motion.div
+            key="lock"
+            className="absolute inset-0 z-20"
+            drag="y"
+            dragConstraints={{ top: 0, bottom: 0 }}
+            dragElastic={{ top: 0.9, bottom: 0.05 }}
+            dragMomentum={false}
+            onPointerDown={() => { swiped.current = false; }}
+            onDragStart={() => { swiped.current = true; }}
+            onDragEnd={onSwipeEnd}
+            onClickCapture={(e) => {
+              if (swiped.current) { e.preventDefault(); e.stopPropagation(); }
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "ArrowUp") { e.preventDefault(); unlock(); }
+            }}
+            initial={{ y: "-100%" }}
+            animate={{ y: 0 }}
+            exit={{ y: "-100%" }}
+            transition={{ type: "tween", duration: 0.35, ease: [0.2, 0.8, 0.2, 1] }}
+          >
+            <AndroidLockScreen
+              links={links}
+              wallpaperUrl={wallpaperUrl}
+              notifications={notifications}
+              onUnlock={unlock}
+            />
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
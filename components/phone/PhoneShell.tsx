@@ -0,0 +1,21 @@
+import React from "react";
+
+export function PhoneShell({ children, noShadow = false }: { children?: React.ReactNode; noShadow?: boolean }) {
+  // square corners
+  return (
+    <div className={`relative aspect-[9/18] w-full max-w-sm rounded-none bg-black ${noShadow ? "shadow-none" : "shadow-2xl"} ring-1 ring-white/10 overflow-hidden`}>
+      <div className="absolute inset-0 bg-gradient-to-br from-white/10 via-transparent to-white/5 pointer-events-none" />
+      <div className="absolute top-0 left-0 right-0 mt-0 h-6 bg-black/70 border-b border-white/10" />
+      <div className="relative h-full w-full bg-neutral-900/90 text-white">{children}</div>
+    </div>
+  );
+}
+
+export function PhoneImageOnly({ imageUrl }: { imageUrl: string }) {
+  return (
+    <div className="relative h-full w-full">
+      <div className="absolute inset-0 bg-center bg-cover" style={{ backgroundImage: `url(${imageUrl})` }} />
+      <div className="absolute inset-0 bg-black/20" />
+    </div>
+  );
+}
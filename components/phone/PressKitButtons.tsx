@@ -0,0 +1,65 @@
+import React, { useState } from "react";
+import { AlertTriangle, FileDown, FileText, Loader2 } from "lucide-react";
+import { downloadBlob } from "../../lib/download";
+import { PROFILE } from "../../lib/profile";
+import { buildPressKit, currentPressKit, oneSheetPdf, pressKitFilename, pressPhotos } from "../../lib/press-kit";
+import { useI18n } from "../useI18n";
+import type { PhoneLink } from "./types";
+
+type Status = { busy: "zip" | "pdf" | null; failed: boolean };
+
+/** "Download press kit" (ZIP) and "One-sheet" (PDF), both generated in the browser. */
+export function PressKitButtons({ links }: { links: PhoneLink[] }) {
+  const { t } = useI18n();
+  const [status, setStatus] = useState<Status>({ busy: null, failed: false });
+
+  const run = async (busy: "zip" | "pdf") => {
+    setStatus({ busy, failed: false });
+    try {
+      const kit = currentPressKit(links.map(({ label, href }) => ({ label, href })));
+      if (busy === "zip") downloadBlob(await buildPressKit(kit), pressKitFilename());
+      else downloadBlob(await oneSheetPdf(kit), `${PROFILE.handle}-one-sheet.pdf`);
+      setStatus({ busy: null, failed: false });
+    } catch {
+      setStatus({ busy: null, failed: true });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <button
+          onClick={() => run("zip")}
+          disabled={!!status.busy}
+          className="flex-1 inline-flex items-center justify-center gap-2 rounded-xl bg-amber-500 px-3 py-2.5 text-sm font-semibold text-black disabled:opacity-60"
+        >
+          {status.busy === "zip" ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileDown className="h-4 w-4" />}
+          {status.busy === "zip" ? t.pressKit.packing : t.pressKit.download}
+        </button>
+        <button
+          onClick={() => run("pdf")}
+          disabled={!!status.busy}
+          className="inline-flex items-center gap-2 rounded-xl bg-white/10 px-3 py-2.5 text-sm disabled:opacity-60"
+          aria-label={t.pressKit.pdfLabel}
+        >
+          {status.busy === "pdf" ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileText className="h-4 w-4" />}
+          PDF
+        </button>
+      </div>
+      <p className="text-[11px] opacity-60">{t.pressKit.contents(pressPhotos().length > 0)}</p>
+      {status.failed && (
+        <p role="alert" className="flex items-start gap-1.5 text-[11px] text-red-400">
+          <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+          {PROFILE.email ? (
+            <span>
+              {t.pressKit.failed}{" "}
+              <a href={`mailto:${PROFILE.email}?subject=${encodeURIComponent(t.pressKit.request)}`} className="underline">{PROFILE.email}</a>.
+            </span>
+          ) : (
+            <span>{t.pressKit.failedRetry}</span>
+          )}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import React from "react";
+import { CalendarCheck, ChevronLeft, ExternalLink, Globe, Mail } from "lucide-react";
+import { PROFILE } from "../../lib/profile";
+import { PhoneStatusBar } from "./HomeScreen";
+import { PressKitButtons } from "./PressKitButtons";
+import { useI18n } from "../useI18n";
+import type { PhoneAppId, PhoneLink } from "./types";
+
+/** Full-screen in-phone app frame: status bar, back + title header, scrolling body. */
+export function AppView({
+  app,
+  onBack,
+  onLock,
+  children,
+}: {
+  app: PhoneAppId;
+  onBack: () => void;
+  onLock: () => void;
+  children: React.ReactNode;
+}) {
+  const { t } = useI18n();
+  return (
+    <div className="absolute inset-0 flex flex-col bg-neutral-950">
+      <PhoneStatusBar onLock={onLock} />
+      <header className="flex items-center gap-1 px-2 h-11 border-b border-white/10">
+        <button onClick={onBack} aria-label={t.phone.back} className="inline-flex items-center p-1.5 rounded-full hover:bg-white/10">
+          <ChevronLeft className="h-5 w-5" />
+        </button>
+        <h2 className="text-sm font-semibold">{t.phone.appNames[app]}</h2>
+      </header>
+      <div className="flex-1 overflow-y-auto overscroll-contain">{children}</div>
+    </div>
+  );
+}
+
+export function BioApp({ links }: { links: PhoneLink[] }) {
+  return (
+    <article className="p-5 space-y-4 text-sm leading-relaxed">
+      <div className="flex items-center gap-3">
+        <div className="grid place-items-center h-14 w-14 rounded-full bg-amber-500 text-lg font-semibold">
+          {PROFILE.name.split(" ").map((w) => w[0]).join("")}
+        </div>
+        <div>
+          <div className="text-base font-semibold">{PROFILE.name}</div>
+          <div className="text-xs opacity-70">{PROFILE.role}</div>
+        </div>
+      </div>
+      {PROFILE.bio.map((p, i) => <p key={i} className="opacity-90">{p}</p>)}
+      <PressKitButtons links={links} />
+    </article>
+  );
+}
+
+export function ContactApp({ links, onBook }: { links: PhoneLink[]; onBook: () => void }) {
+  const { t } = useI18n();
+  return (
+    <div className="p-5 space-y-3 text-sm">
+      <button onClick={onBook} className="w-full flex items-center gap-3 p-3 rounded-xl bg-rose-600 hover:bg-rose-500 font-semibold text-left">
+        <CalendarCheck className="h-5 w-5" />
+        <span>{t.phone.bookInquiry}</span>
+      </button>
+      {PROFILE.email && (
+        <a href={`mailto:${PROFILE.email}`} className="flex items-center gap-3 p-3 rounded-xl bg-white/5 hover:bg-white/10">
+          <Mail className="h-5 w-5 text-sky-400" />
+          <span>{PROFILE.email}</span>
+        </a>
+      )}
+      <a href={PROFILE.website} target="_blank" rel="noreferrer" className="flex items-center gap-3 p-3 rounded-xl bg-white/5 hover:bg-white/10">
+        <Globe className="h-5 w-5 text-sky-400" />
+        <span>{PROFILE.website.replace(/^https?:\/\/(www\.)?/, "")}</span>
+      </a>
+      <div data-analytics-source="contact-app" className="pt-2 flex gap-2">
+        {links.map(({ label, href, icon: Icon }) => (
+          <a key={href} href={href} target="_blank" rel="noreferrer" aria-label={label} className="p-2.5 rounded-full bg-white/10 hover:bg-white/20">
+            <Icon className="h-4 w-4" />
+          </a>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function LinksApp({ links }: { links: PhoneLink[] }) {
+  return (
+    <ul data-analytics-source="links-app" className="p-3 space-y-2 text-sm">
+      {links.map(({ label, href, handle, brand, icon: Icon }) => (
+        <li key={href}>
+          <a href={href} target="_blank" rel="noreferrer" className="flex items-center gap-3 p-3 rounded-xl bg-white/5 hover:bg-white/10">
+            <span style={{ background: brand.background, color: brand.text }} className="grid h-8 w-8 place-items-center rounded-lg">
+              <Icon className="h-4 w-4" />
+            </span>
+            <span className="flex-1 leading-tight">
+              {label}
+              {handle && <span className="block text-xs opacity-60">{handle}</span>}
+            </span>
+            <ExternalLink className="h-4 w-4 opacity-50" />
+          </a>
+        </li>
+      ))}
+    </ul>
+  );
+}
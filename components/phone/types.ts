@@ -0,0 +1,37 @@
+import type React from "react";
+import type { ResolvedLink } from "../../lib/links";
+
+/** An outbound link as shown on the lock screen and in the Links app. */
+export type PhoneLink = ResolvedLink & { icon: React.ElementType };
+
+/** `sizes` for the wallpaper: it covers the screen, and the phone is never drawn wider than 400px */
+export const WALLPAPER_SIZES = "400px";
+
+/** A lock-screen notification card. */
+export type PhoneNotification = {
+  id: string;
+  /** Cards from the same app stack together */
+  app: string;
+  appIcon: React.ElementType;
+  /** Tailwind background class for the app badge */
+  appTint?: string;
+  title: string;
+  body: string;
+  /** Before the phone was picked up; shown as "now", "5m", "2h", "3d" */
+  minutesAgo: number;
+  href?: string;
+  /** Shown once the card is expanded */
+  image?: string;
+  /** Sender picture; `crop` is [x0, y0, x1, y1] as fractions of the image, like image-meta's `opaque` */
+  avatar?: { src: string; crop?: readonly [number, number, number, number] };
+};
+
+export type PhoneAppId = "book" | "bio" | "contact" | "gallery" | "links";
+
+/** Which screen the in-phone UI shows. */
+export type PhoneScreen = "lock" | "home" | PhoneAppId;
+
+const PHONE_SCREENS: readonly string[] = ["lock", "home", "book", "bio", "contact", "gallery", "links"] satisfies PhoneScreen[];
+
+/** For screens read back from outside (URL, storage). */
+export const isPhoneScreen = (s: string): s is PhoneScreen => PHONE_SCREENS.includes(s);
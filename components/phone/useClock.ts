@@ -0,0 +1,32 @@
+import { useEffect, useState } from "react";
+import { clockParts, lockScreenDate } from "../../lib/i18n";
+import { useI18n } from "../useI18n";
+
+/** Ticking wall clock for the phone's status bar and lock screen, 12- or 24-hour as the locale writes it. */
+export function useClock() {
+  const { tag } = useI18n();
+  const [now, setNow] = useState(new Date());
+  useEffect(() => { const id = setInterval(() => setNow(new Date()), 1000); return () => clearInterval(id); }, []);
+
+  return { ...clockParts(now, tag), date: lockScreenDate(now, tag) };
+}
+
+/** Battery level 0–1 where the browser reports one (Chromium); a full battery elsewhere. */
+export function useBatteryLevel() {
+  const [level, setLevel] = useState(1);
+  useEffect(() => {
+    const nav = navigator as Navigator & { getBattery?: () => Promise<EventTarget & { level: number }> };
+    if (!nav.getBattery) return;
+    let battery: (EventTarget & { level: number }) | null = null;
+    const read = () => { if (battery) setLevel(battery.level); };
+    nav.getBattery().then((b) => {
+      battery = b;
+      read();
+      b.addEventListener("levelchange", read);
+    }).catch(() => {
+      // Blocked by permissions policy: keep the full battery
+    });
+    return () => battery?.removeEventListener("levelchange", read);
+  }, []);
+  return level;
+}
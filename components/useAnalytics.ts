@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { dispatch, doNotTrack, newSession, sinksFromSpec, type AnalyticsEvent } from "../lib/analytics";
+
+const CONSENT_KEY = "tsg:analytics-consent:v1";
+
+export type AnalyticsConsent = "granted" | "denied";
+
+/**
+ * Sinks come from the build environment, e.g.
+ *   NEXT_PUBLIC_ANALYTICS=console,local,beacon
+ *   NEXT_PUBLIC_ANALYTICS_ENDPOINT=http://localhost:8787/collect   (npm run analytics:stub)
+ * Nothing is configured by default, and then nothing is tracked or asked.
+ */
+const SINKS = sinksFromSpec(process.env.NEXT_PUBLIC_ANALYTICS, process.env.NEXT_PUBLIC_ANALYTICS_ENDPOINT);
+
+function readConsent(): AnalyticsConsent | null {
+  try {
+    const v = window.localStorage.getItem(CONSENT_KEY);
+    return v === "granted" || v === "denied" ? v : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Opt-in tracking: `track` is a no-op until the visitor says yes, and `available` is false
+ * (so nothing is asked) when no sink is configured or the browser sends Do Not Track / GPC.
+ * While tracking, clicks on links that leave the site are reported as outbound_click.
+ */
+export function useAnalytics() {
+  const [available, setAvailable] = useState(false);
+  const [consent, setConsentState] = useState<AnalyticsConsent | null>(null);
+  const session = useMemo(newSession, []);
+  const on = useRef(false);
+  on.current = available && consent === "granted";
+
+  useEffect(() => {
+    setAvailable(SINKS.length > 0 && !doNotTrack());
+    setConsentState(readConsent());
+  }, []);
+
+  const setConsent = useCallback((next: AnalyticsConsent) => {
+    setConsentState(next);
+    try {
+      window.localStorage.setItem(CONSENT_KEY, next);
+    } catch {
+      // the answer just won't survive a reload
+    }
+  }, []);
+
+  const track = useCallback((event: AnalyticsEvent) => {
+    if (on.current) dispatch(SINKS, session, event);
+  }, [session]);
+
+  useEffect(() => {
+    const onClick = (e: MouseEvent) => {
+      const a = (e.target as Element | null)?.closest?.("a[href]") as HTMLAnchorElement | null;
+      if (!a || !/^https?:$/.test(a.protocol) || a.origin === window.location.origin) return;
+      const source = a.closest<HTMLElement>("[data-analytics-source]")?.dataset.analyticsSource ?? "page";
+      track({ type: "outbound_click", href: a.href, source });
+    };
+    // Capture, so links inside handlers that stop propagation still count
+    document.addEventListener("click", onClick, true);
+    return () => document.removeEventListener("click", onClick, true);
+  }, [track]);
+
+  return { available, consent, setConsent, track };
+}
@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+const CLEANUP_KEY = "tsg:cleanup:v1";
+
+type CleanupState = {
+  playing: boolean;
+  /** Trash ids picked up so far */
+  collected: string[];
+  /** The reward dialog has been seen for the current round */
+  rewarded: boolean;
+};
+
+const INITIAL: CleanupState = { playing: false, collected: [], rewarded: false };
+
+/** The saved round, field by field: anything stale or hand-edited falls back to its initial value. */
+function readState(trashIds: readonly string[]): CleanupState {
+  try {
+    const saved: unknown = JSON.parse(window.localStorage.getItem(CLEANUP_KEY) ?? "{}");
+    if (!saved || typeof saved !== "object" || Array.isArray(saved)) return INITIAL;
+    const { playing, collected, rewarded } = saved as Record<string, unknown>;
+    return {
+      playing: typeof playing === "boolean" ? playing : INITIAL.playing,
+      collected: Array.isArray(collected)
+        ? collected.filter((id): id is string => typeof id === "string" && trashIds.includes(id))
+        : INITIAL.collected,
+      rewarded: typeof rewarded === "boolean" ? rewarded : INITIAL.rewarded,
+    };
+  } catch {
+    return INITIAL;
+  }
+}
+
+function writeState(state: CleanupState) {
+  try {
+    window.localStorage.setItem(CLEANUP_KEY, JSON.stringify(state));
+  } catch {
+    // storage full or disabled: the round just won't survive a reload
+  }
+}
+
+/**
+ * The opt-in "clean up the ground" game: while playing, every trash item that gets
+ * opened is picked up. Clearing all of `trashIds` unlocks the reward. Progress is kept
+ * in localStorage; ids that are no longer in the scene are ignored.
+ */
+export function useCleanupGame(trashIds: readonly string[]) {
+  const [state, setState] = useState<CleanupState>(INITIAL);
+
+  // Read once on mount; later scene changes are handled by the filter below
+  useEffect(() => setState(readState(trashIds)), []);
+
+  const update = useCallback((change: (s: CleanupState) => CleanupState) => {
+    setState((prev) => {
+      const next = change(prev);
+      writeState(next);
+      return next;
+    });
+  }, []);
+
+  const collected = useMemo(() => state.collected.filter((id) => trashIds.includes(id)), [state.collected, trashIds]);
+  const cleared = trashIds.length > 0 && collected.length === trashIds.length;
+
+  const collect = useCallback((id: string) => {
+    update((s) => {
+      if (s.collected.includes(id)) return s;
+      return { ...s, collected: [...s.collected, id] };
+    });
+  }, [update]);
+
+  return {
+    playing: state.playing,
+    collected,
+    cleared,
+    /** Show the reward: the round is won and it hasn't been dismissed yet */
+    rewardDue: state.playing && cleared && !state.rewarded,
+    start: useCallback(() => update((s) => ({ ...s, playing: true })), [update]),
+    stop: useCallback(() => update((s) => ({ ...s, playing: false })), [update]),
+    collect,
+    dismissReward: useCallback(() => update((s) => ({ ...s, rewarded: true })), [update]),
+    /** Puts every item back on the ground */
+    reset: useCallback(() => update((s) => ({ ...s, collected: [], rewarded: false })), [update]),
+  };
+}
@@ -0,0 +1,61 @@
+import type React from "react";
+import { useEffect, useRef } from "react";
+
+const FOCUSABLE = [
+  "a[href]",
+  "button:not([disabled])",
+  "input:not([disabled])",
+  "select:not([disabled])",
+  "textarea:not([disabled])",
+  "[tabindex]:not([tabindex='-1'])",
+].join(",");
+
+/** Focusable, rendered and not inside an inert subtree (e.g. the phone's home screen while locked). */
+const tabbables = (root: HTMLElement) =>
+  Array.from(root.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(
+    (el) => el.getClientRects().length > 0 && !el.closest("[inert]")
+  );
+
+/**
+ * Modal dialog keyboard handling: focuses the dialog itself on mount (so its label is
+ * announced), keeps Tab cycling inside it and closes on Escape. Spread the result on
+ * the dialog element. Nested layers that handle Escape themselves should stop propagation.
+ * Returning focus to the opener is left to the caller, which knows what opened it.
+ */
+export function useDialogFocus<T extends HTMLElement = HTMLDivElement>(onClose: () => void) {
+  const ref = useRef<T>(null);
+  const close = useRef(onClose);
+  close.current = onClose;
+
+  useEffect(() => {
+    ref.current?.focus({ preventScroll: true });
+  }, []);
+
+  const onKeyDown = (e: React.KeyboardEvent<T>) => {
+    if (e.key === "Escape") {
+      e.stopPropagation();
+      close.current();
+      return;
+    }
+    const root = ref.current;
+    if (e.key !== "Tab" || !root) return;
+
+    const items = tabbables(root);
+    if (!items.length) {
+      e.preventDefault();
+      return;
+    }
+    const first = items[0];
+    const last = items[items.length - 1];
+    const active = document.activeElement;
+    if (e.shiftKey && (active === first || active === root)) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && active === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  return { ref, tabIndex: -1, onKeyDown };
+}
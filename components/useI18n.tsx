@@ -0,0 +1,75 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { DEFAULT_LOCALE, MESSAGES, formatTag, isLocale, matchLocale, type Locale, type Messages } from "../lib/i18n";
+
+const LOCALE_KEY = "tsg:locale:v1";
+const LANG_PARAM = "lang";
+
+type I18n = {
+  locale: Locale;
+  t: Messages;
+  /** BCP 47 tag for Intl date, time and number formatting */
+  tag: string;
+  setLocale: (locale: Locale) => void;
+};
+
+const preferredLanguages = (): readonly string[] =>
+  typeof navigator === "undefined" ? [] : navigator.languages?.length ? navigator.languages : [navigator.language];
+
+const initial = (locale: Locale): I18n => ({
+  locale,
+  t: MESSAGES[locale],
+  tag: formatTag(locale, preferredLanguages()),
+  setLocale: () => {},
+});
+
+const I18nContext = createContext<I18n>(initial(DEFAULT_LOCALE));
+
+function readStoredLocale(): Locale | null {
+  try {
+    const v = window.localStorage.getItem(LOCALE_KEY);
+    return v && isLocale(v) ? v : null;
+  } catch {
+    return null;
+  }
+}
+
+/** ?lang= for the visitor's pick, kept when the focus or seed params change (other params stay). */
+function writeLocaleToUrl(locale: Locale) {
+  const url = new URL(window.location.href);
+  url.searchParams.set(LANG_PARAM, locale);
+  window.history.replaceState(window.history.state, "", url);
+}
+
+/**
+ * The static export is rendered in English; in the browser the locale comes from ?lang=, then
+ * the last pick on this device, then the browser's languages. Picking one in the switcher
+ * rewrites ?lang= so a shared link opens in the same language.
+ */
+export function LocaleProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+
+  useEffect(() => {
+    const fromUrl = new URLSearchParams(window.location.search).get(LANG_PARAM) ?? "";
+    setLocaleState(isLocale(fromUrl) ? fromUrl : readStoredLocale() ?? matchLocale(preferredLanguages()));
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    writeLocaleToUrl(next);
+    try {
+      window.localStorage.setItem(LOCALE_KEY, next);
+    } catch {
+      // Storage blocked: the URL still carries the choice for this visit
+    }
+  }, []);
+
+  const value = useMemo(() => ({ ...initial(locale), setLocale }), [locale, setLocale]);
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+/** Strings and formatting for the current locale; English outside a LocaleProvider. */
+export const useI18n = () => useContext(I18nContext);
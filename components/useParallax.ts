@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useState } from "react";
+import { useMotionValue, useSpring, useTransform, type MotionValue } from "framer-motion";
+
+const MAX_SHIFT = 14;        // px the nearest layer moves at full tilt
+const SHADOW_SWING = 10;     // px the nearest shadow swings away from the light
+const SHADOW_DROP = [6, 8];  // px a shadow falls below its item: base + per unit of depth
+const TILT_RANGE = 20;       // degrees of device tilt for full parallax
+const TILT_RECENTER = 0.01;  // how fast the resting angle follows the way the phone is held
+const NEAREST_Z = 30;        // the phone; the highest z in the scene manifest
+const SPRING = { stiffness: 120, damping: 22, mass: 0.6 };
+
+/** The ground photo sits furthest back and barely moves. */
+export const BACKGROUND_DEPTH = 0.15;
+
+/** How far from the ground an item floats, 0…1: items stacked higher sit nearer the viewer. */
+export const depthForZ = (z: number) => Math.max(0.2, Math.min(1, z / NEAREST_Z));
+
+export type Tilt = { x: MotionValue<number>; y: MotionValue<number> };
+
+type OrientationPermission = { requestPermission?: () => Promise<"granted" | "denied"> };
+
+const clamp1 = (v: number) => Math.max(-1, Math.min(1, v));
+
+/**
+ * Where the viewer leans, as a sprung (x, y) in -1…1: from the mouse on desktop, from
+ * DeviceOrientation on phones. iOS-style browsers only send orientation after a permission
+ * prompt, so `needsPermission` asks for a button that calls `requestPermission` from a tap.
+ * Nothing is listened to while `enabled` is false (reduced motion, the 3D ground).
+ * Updates go straight into motion values, so following the pointer never re-renders React.
+ */
+export function useParallax(enabled: boolean) {
+  const rawX = useMotionValue(0);
+  const rawY = useMotionValue(0);
+  const tilt: Tilt = { x: useSpring(rawX, SPRING), y: useSpring(rawY, SPRING) };
+  const [source, setSource] = useState<"pointer" | "orientation" | null>(null);
+  const [needsPermission, setNeedsPermission] = useState(false);
+  const [granted, setGranted] = useState(false);
+
+  useEffect(() => {
+    if (window.matchMedia("(hover: hover) and (pointer: fine)").matches) setSource("pointer");
+    else if ("DeviceOrientationEvent" in window) {
+      setSource("orientation");
+      setNeedsPermission(typeof (DeviceOrientationEvent as OrientationPermission).requestPermission === "function");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || source !== "pointer") return;
+    const onMove = (e: PointerEvent) => {
+      if (e.pointerType !== "mouse") return;
+      rawX.set(clamp1((e.clientX / window.innerWidth) * 2 - 1));
+      rawY.set(clamp1((e.clientY / window.innerHeight) * 2 - 1));
+    };
+    window.addEventListener("pointermove", onMove, { passive: true });
+    return () => window.removeEventListener("pointermove", onMove);
+  }, [enabled, source, rawX, rawY]);
+
+  useEffect(() => {
+    if (!enabled || source !== "orientation" || (needsPermission && !granted)) return;
+    // Tilt is measured from how the phone is being held, which drifts as the visitor shifts around
+    let rest: { beta: number; gamma: number } | null = null;
+    const onOrientation = (e: DeviceOrientationEvent) => {
+      if (e.beta == null || e.gamma == null) return;
+      rest = rest ?? { beta: e.beta, gamma: e.gamma };
+      rest.beta += (e.beta - rest.beta) * TILT_RECENTER;
+      rest.gamma += (e.gamma - rest.gamma) * TILT_RECENTER;
+      const side = (e.gamma - rest.gamma) / TILT_RANGE;
+      const forward = (e.beta - rest.beta) / TILT_RANGE;
+      // beta / gamma are fixed to the device; turn them into screen axes in landscape
+      const angle = window.screen.orientation?.angle ?? 0;
+      const [x, y] = angle === 90 ? [forward, -side] : angle === 270 ? [-forward, side] : angle === 180 ? [-side, -forward] : [side, forward];
+      rawX.set(clamp1(x));
+      rawY.set(clamp1(y));
+    };
+    window.addEventListener("deviceorientation", onOrientation);
+    return () => window.removeEventListener("deviceorientation", onOrientation);
+  }, [enabled, source, needsPermission, granted, rawX, rawY]);
+
+  // Switched off mid-lean: glide back to rest
+  useEffect(() => {
+    if (enabled) return;
+    rawX.set(0);
+    rawY.set(0);
+  }, [enabled, rawX, rawY]);
+
+  /** Call from a tap: shows the browser's motion-access prompt. */
+  const requestPermission = useCallback(() => {
+    (DeviceOrientationEvent as OrientationPermission).requestPermission?.()
+      .then((answer) => setGranted(answer === "granted"))
+      .catch(() => {
+        // Not from a gesture, or refused: the ground just stays still
+      });
+  }, []);
+
+  return {
+    tilt,
+    /** Something is driving the tilt (so layers are worth promoting and overscanning) */
+    active: enabled && source !== null && (!needsPermission || granted),
+    needsPermission: enabled && needsPermission && !granted,
+    requestPermission,
+  };
+}
+
+/** A layer's offset at `depth`, plus its shadow's: nearer layers move and throw their shadow further. */
+export function useDepthShift(tilt: Tilt, depth: number) {
+  const x = useTransform(tilt.x, (v) => -v * MAX_SHIFT * depth);
+  const y = useTransform(tilt.y, (v) => -v * MAX_SHIFT * depth);
+  // The light hangs where the viewer leans from, so shadows fall away from the pointer
+  const shadowX = useTransform(tilt.x, (v) => -v * SHADOW_SWING * depth);
+  const shadowY = useTransform(tilt.y, (v) => SHADOW_DROP[0] + SHADOW_DROP[1] * depth - v * SHADOW_SWING * depth);
+  return { x, y, shadowX, shadowY };
+}
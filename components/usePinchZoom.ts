@@ -0,0 +1,196 @@
+import type React from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { animate, useMotionValue } from "framer-motion";
+
+type Point = { x: number; y: number };
+
+const DOUBLE_TAP_MS = 300;
+const DOUBLE_TAP_SLOP = 24; // px between the two taps
+const SPRING = { type: "spring", stiffness: 320, damping: 34 } as const;
+
+/**
+ * Pinch / wheel / double-tap zoom with bounded panning.
+ * Put `ref` + `handlers` on an untransformed container and `{ scale, x, y }` on
+ * the child that fills it. While not zoomed, a one-finger horizontal drag is
+ * reported through `swipeX` and `onSwipeEnd` instead (next photo, flip a card, ...).
+ */
+export function usePinchZoom<T extends HTMLElement = HTMLDivElement>({
+  maxScale = 4,
+  doubleTapScale = 2.5,
+  onSwipeEnd,
+}: {
+  maxScale?: number;
+  doubleTapScale?: number;
+  /** dx in px, vx in px/s of a horizontal drag that happened at scale 1 */
+  onSwipeEnd?: (dx: number, vx: number) => void;
+} = {}) {
+  const ref = useRef<T>(null);
+  const scale = useMotionValue(1);
+  const x = useMotionValue(0);
+  const y = useMotionValue(0);
+  const swipeX = useMotionValue(0);
+  const [zoomed, setZoomed] = useState(false);
+
+  const pointers = useRef(new Map<number, Point>());
+  const pinch = useRef<{ dist: number; scale: number; mid: Point; x: number; y: number } | null>(null); // mid is relative to the center
+  const pan = useRef<{ start: Point; x: number; y: number; swiping: boolean; lastX: number; lastT: number; vx: number } | null>(null);
+  const lastTap = useRef<{ t: number; p: Point } | null>(null);
+  const swipeEnd = useRef(onSwipeEnd);
+  swipeEnd.current = onSwipeEnd;
+
+  /** Pan limits so the zoomed content always covers its box. */
+  const clampPan = useCallback((s: number, px: number, py: number) => {
+    const el = ref.current;
+    if (!el) return { x: px, y: py };
+    const mx = (el.offsetWidth * (s - 1)) / 2;
+    const my = (el.offsetHeight * (s - 1)) / 2;
+    return { x: Math.max(-mx, Math.min(mx, px)), y: Math.max(-my, Math.min(my, py)) };
+  }, []);
+
+  const setView = useCallback((s: number, px: number, py: number, animated = false) => {
+    const next = Math.max(1, Math.min(maxScale, s));
+    const p = clampPan(next, px, py);
+    if (animated) {
+      animate(scale, next, SPRING);
+      animate(x, p.x, SPRING);
+      animate(y, p.y, SPRING);
+    } else {
+      scale.set(next);
+      x.set(p.x);
+      y.set(p.y);
+    }
+    setZoomed(next > 1.01);
+  }, [clampPan, maxScale, scale, x, y]);
+
+  /** Offset of a screen point from the container's center. */
+  const fromCenter = useCallback((client: Point): Point => {
+    const r = ref.current?.getBoundingClientRect();
+    return r ? { x: client.x - (r.left + r.width / 2), y: client.y - (r.top + r.height / 2) } : { x: 0, y: 0 };
+  }, []);
+
+  /** Zoom to `s` keeping the screen point (clientX/Y) under the finger or cursor fixed. */
+  const zoomAt = useCallback((s: number, client: Point, animated = false) => {
+    const o = fromCenter(client);
+    const next = Math.max(1, Math.min(maxScale, s));
+    const k = next / scale.get();
+    setView(next, o.x - (o.x - x.get()) * k, o.y - (o.y - y.get()) * k, animated);
+  }, [fromCenter, maxScale, scale, setView, x, y]);
+
+  const reset = useCallback(() => {
+    setView(1, 0, 0, true);
+    swipeX.set(0);
+  }, [setView, swipeX]);
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      zoomAt(scale.get() * Math.exp(-e.deltaY * 0.0025), { x: e.clientX, y: e.clientY });
+    };
+    el.addEventListener("wheel", onWheel, { passive: false });
+    return () => el.removeEventListener("wheel", onWheel);
+  }, [scale, zoomAt]);
+
+  const onPointerDown = (e: React.PointerEvent<T>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const pts = Array.from(pointers.current.values());
+    if (pts.length === 2) {
+      pan.current = null;
+      swipeX.set(0);
+      pinch.current = {
+        dist: Math.hypot(pts[0].x - pts[1].x, pts[0].y - pts[1].y) || 1,
+        scale: scale.get(),
+        mid: fromCenter({ x: (pts[0].x + pts[1].x) / 2, y: (pts[0].y + pts[1].y) / 2 }),
+        x: x.get(),
+        y: y.get(),
+      };
+    } else if (pts.length === 1) {
+      pan.current = { start: pts[0], x: x.get(), y: y.get(), swiping: false, lastX: pts[0].x, lastT: e.timeStamp, vx: 0 };
+    }
+  };
+
+  const onPointerMove = (e: React.PointerEvent<T>) => {
+    if (!pointers.current.has(e.pointerId)) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const pts = Array.from(pointers.current.values());
+
+    if (pinch.current && pts.length >= 2) {
+      // keep the content point that was under the starting midpoint under the current midpoint
+      const g = pinch.current;
+      const dist = Math.hypot(pts[0].x - pts[1].x, pts[0].y - pts[1].y);
+      const mid = fromCenter({ x: (pts[0].x + pts[1].x) / 2, y: (pts[0].y + pts[1].y) / 2 });
+      const next = Math.max(1, Math.min(maxScale, g.scale * (dist / g.dist)));
+      const k = next / g.scale;
+      setView(next, mid.x - (g.mid.x - g.x) * k, mid.y - (g.mid.y - g.y) * k);
+      return;
+    }
+
+    const p = pan.current;
+    if (!p) return;
+    const dx = e.clientX - p.start.x;
+    const dy = e.clientY - p.start.y;
+    const dt = Math.max(1, e.timeStamp - p.lastT);
+    p.vx = ((e.clientX - p.lastX) / dt) * 1000;
+    p.lastX = e.clientX;
+    p.lastT = e.timeStamp;
+
+    if (scale.get() > 1.01) {
+      setView(scale.get(), p.x + dx, p.y + dy);
+    } else if (swipeEnd.current && (p.swiping || Math.abs(dx) > 8 && Math.abs(dx) > Math.abs(dy))) {
+      p.swiping = true;
+      swipeX.set(dx);
+    }
+  };
+
+  const onPointerUp = (e: React.PointerEvent<T>) => {
+    if (!pointers.current.has(e.pointerId)) return;
+    pointers.current.delete(e.pointerId);
+    const p = pan.current;
+
+    if (pinch.current) {
+      if (pointers.current.size < 2) pinch.current = null;
+      if (scale.get() < 1.05) setView(1, 0, 0, true);
+      // a finger still down keeps panning from where the pinch left off
+      const rest = Array.from(pointers.current.values())[0];
+      pan.current = rest ? { start: rest, x: x.get(), y: y.get(), swiping: false, lastX: rest.x, lastT: e.timeStamp, vx: 0 } : null;
+      return;
+    }
+    pan.current = null;
+    if (!p) return;
+
+    if (p.swiping) {
+      swipeEnd.current?.(e.clientX - p.start.x, p.vx);
+      animate(swipeX, 0, SPRING);
+      return;
+    }
+
+    // double tap / double click toggles zoom around the tap point
+    const moved = Math.hypot(e.clientX - p.start.x, e.clientY - p.start.y);
+    if (moved > DOUBLE_TAP_SLOP) return;
+    const tap = { t: e.timeStamp, p: { x: e.clientX, y: e.clientY } };
+    const prev = lastTap.current;
+    if (prev && tap.t - prev.t < DOUBLE_TAP_MS && Math.hypot(tap.p.x - prev.p.x, tap.p.y - prev.p.y) < DOUBLE_TAP_SLOP) {
+      lastTap.current = null;
+      if (scale.get() > 1.01) setView(1, 0, 0, true);
+      else zoomAt(doubleTapScale, tap.p, true);
+    } else {
+      lastTap.current = tap;
+    }
+  };
+
+  return {
+    ref,
+    scale,
+    x,
+    y,
+    swipeX,
+    zoomed,
+    reset,
+    /** Spread on the container with `ref`; it also needs `touch-action: none`. Pointer capture
+     *  retargets clicks to it, so keep buttons outside. */
+    handlers: { onPointerDown, onPointerMove, onPointerUp, onPointerCancel: onPointerUp },
+  };
+}
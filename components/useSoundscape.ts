@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { playItemSound, startAmbience, type ItemSound } from "../lib/sounds";
+
+const SOUND_KEY = "tsg:sound:v1";
+const MASTER_LEVEL = 0.6;
+const FADE_S = 1.5;
+
+type Audio = { ctx: AudioContext; master: GainNode; stopAmbience: () => void };
+
+const audioContextClass = (): typeof AudioContext | undefined =>
+  typeof window === "undefined" ? undefined : window.AudioContext ?? (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+
+function readSoundOn(): boolean {
+  try {
+    return window.localStorage.getItem(SOUND_KEY) === "on";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Opt-in festival sound: off until the visitor turns it on, and remembered per browser.
+ * The AudioContext is only created inside a user gesture. When sound was left on last visit,
+ * it waits for the first click or key press on the page instead of starting on load.
+ */
+export function useSoundscape() {
+  const [available, setAvailable] = useState(false);
+  const [on, setOnState] = useState(false);
+  const audio = useRef<Audio | null>(null);
+  const onRef = useRef(false);
+  onRef.current = on;
+
+  useEffect(() => {
+    setAvailable(!!audioContextClass());
+    setOnState(readSoundOn());
+  }, []);
+
+  /** Call from a gesture handler: builds the graph on first use, then fades the ambience in. */
+  const start = useCallback(() => {
+    const Ctx = audioContextClass();
+    if (!Ctx) return;
+    if (!audio.current) {
+      const ctx = new Ctx();
+      const master = ctx.createGain();
+      master.gain.value = 0;
+      master.connect(ctx.destination);
+      audio.current = { ctx, master, stopAmbience: startAmbience(ctx, master) };
+    }
+    const { ctx, master } = audio.current;
+    void ctx.resume();
+    master.gain.cancelScheduledValues(ctx.currentTime);
+    master.gain.setTargetAtTime(MASTER_LEVEL, ctx.currentTime, FADE_S / 3);
+  }, []);
+
+  const silence = useCallback(() => {
+    const a = audio.current;
+    if (!a) return;
+    a.master.gain.cancelScheduledValues(a.ctx.currentTime);
+    a.master.gain.setTargetAtTime(0, a.ctx.currentTime, 0.1);
+    // Let the fade finish, then stop the clock so nothing runs while muted
+    window.setTimeout(() => { if (!onRef.current) void a.ctx.suspend(); }, 500);
+  }, []);
+
+  // Left on from last time: the next gesture anywhere on the page starts it
+  useEffect(() => {
+    if (!on || audio.current) return;
+    const begin = () => start();
+    window.addEventListener("pointerdown", begin, { once: true, capture: true });
+    window.addEventListener("keydown", begin, { once: true, capture: true });
+    return () => {
+      window.removeEventListener("pointerdown", begin, { capture: true });
+      window.removeEventListener("keydown", begin, { capture: true });
+    };
+  }, [on, start]);
+
+  // Nothing plays in a background tab
+  useEffect(() => {
+    const onVisibility = () => {
+      const a = audio.current;
+      if (!a) return;
+      if (document.hidden) void a.ctx.suspend();
+      else if (onRef.current) void a.ctx.resume();
+    };
+    document.addEventListener("visibilitychange", onVisibility);
+    return () => document.removeEventListener("visibilitychange", onVisibility);
+  }, []);
+
+  // Release the audio device when the page goes away
+  useEffect(() => () => {
+    const a = audio.current;
+    if (!a) return;
+    a.stopAmbience();
+    void a.ctx.close();
+  }, []);
+
+  /** The mute toggle's click handler. */
+  const toggle = useCallback(() => {
+    const next = !onRef.current;
+    if (next) start();
+    else silence();
+    setOnState(next);
+    try {
+      window.localStorage.setItem(SOUND_KEY, next ? "on" : "off");
+    } catch {
+      // Storage blocked: the choice lasts for this visit
+    }
+  }, [start, silence]);
+
+  /** An item's sound, panned by `pan` (-1 left … 1 right); silent while muted or before the first gesture. */
+  const play = useCallback((sound: ItemSound | undefined, pan: number) => {
+    const a = audio.current;
+    if (!sound || !onRef.current || !a) return;
+    playItemSound(a.ctx, a.master, sound, pan);
+  }, []);
+
+  return { available, on, toggle, play };
+}
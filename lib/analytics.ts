@@ -0,0 +1,87 @@
+/** ------------ Interaction analytics: typed events, pluggable sinks ------------ */
+
+export type AnalyticsEvent =
+  | { type: "item_open"; item: string; kind: "flier" | "phone" | "trash" }
+  /** How long an overlay stayed open, sent when it closes (or the page goes away) */
+  | { type: "dwell"; item: string; ms: number }
+  | { type: "flip"; item: string; side: "front" | "back" }
+  | { type: "phone_screen"; screen: string }
+  /** `source` is the nearest data-analytics-source around the link ("lock-screen", "links-app", …) */
+  | { type: "outbound_click"; href: string; source: string };
+
+/**
+ * What a sink receives. There are no cookies or user ids: `session` is random per page
+ * load, so events can be grouped into a visit but not tied to a person or a later visit.
+ */
+export type TrackedEvent = AnalyticsEvent & { at: string; session: string };
+
+export type AnalyticsSink = (event: TrackedEvent) => void;
+
+export const consoleSink: AnalyticsSink = (e) => console.info("[analytics]", e);
+
+const LOCAL_KEY = "tsg:analytics:v1";
+const LOCAL_MAX = 500;
+
+/** Keeps the last LOCAL_MAX events in localStorage, for looking at on this device. */
+export const localStorageSink: AnalyticsSink = (e) => {
+  try {
+    const prev: TrackedEvent[] = JSON.parse(window.localStorage.getItem(LOCAL_KEY) ?? "[]");
+    window.localStorage.setItem(LOCAL_KEY, JSON.stringify([...prev, e].slice(-LOCAL_MAX)));
+  } catch {
+    // storage full or disabled: drop the event
+  }
+};
+
+/**
+ * POSTs each event as JSON to `endpoint`. sendBeacon survives the page unloading (outbound
+ * clicks, closing the tab); text/plain keeps it a simple request, so there's no CORS preflight.
+ */
+export function beaconSink(endpoint: string): AnalyticsSink {
+  return (e) => {
+    const body = JSON.stringify(e);
+    try {
+      if (navigator.sendBeacon?.(endpoint, new Blob([body], { type: "text/plain" }))) return;
+    } catch {
+      // some browsers throw for cross-origin beacons; fall through to fetch
+    }
+    fetch(endpoint, { method: "POST", body, keepalive: true, mode: "no-cors" }).catch(() => {
+      // analytics never gets in the visitor's way
+    });
+  };
+}
+
+/**
+ * Sinks named in a comma-separated spec: "console", "local" and "beacon" (which needs
+ * `endpoint`). Unknown names are skipped with a warning.
+ */
+export function sinksFromSpec(spec: string | undefined, endpoint?: string): AnalyticsSink[] {
+  const sinks: AnalyticsSink[] = [];
+  for (const name of (spec ?? "").split(",").map((s) => s.trim()).filter(Boolean)) {
+    if (name === "console") sinks.push(consoleSink);
+    else if (name === "local") sinks.push(localStorageSink);
+    else if (name === "beacon" && endpoint) sinks.push(beaconSink(endpoint));
+    else console.warn(`[analytics] skipping sink "${name}"${name === "beacon" ? " (no endpoint set)" : ""}`);
+  }
+  return sinks;
+}
+
+/** Do Not Track or Global Privacy Control, as the browser reports it. */
+export function doNotTrack(): boolean {
+  const nav = navigator as Navigator & { globalPrivacyControl?: boolean; msDoNotTrack?: string };
+  const dnt = nav.doNotTrack ?? (window as Window & { doNotTrack?: string }).doNotTrack ?? nav.msDoNotTrack;
+  return dnt === "1" || dnt === "yes" || nav.globalPrivacyControl === true;
+}
+
+export const newSession = () => Math.random().toString(36).slice(2, 10);
+
+/** Stamps `event` and hands it to every sink; a throwing sink doesn't stop the others. */
+export function dispatch(sinks: readonly AnalyticsSink[], session: string, event: AnalyticsEvent) {
+  const tracked: TrackedEvent = { ...event, at: new Date().toISOString(), session };
+  for (const sink of sinks) {
+    try {
+      sink(tracked);
+    } catch (err) {
+      console.warn("[analytics] sink failed", err);
+    }
+  }
+}
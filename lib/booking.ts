@@ -0,0 +1,90 @@
+import { en, type Messages } from "./locales/en";
+
+/** ------------ Booking inquiry (fields, validation, Netlify Forms + mailto encodings) ------------ */
+
+/**
+ * Netlify registers forms by scanning the deployed HTML, and the phone only renders in the
+ * browser, so public/__forms.html carries a static copy of this form. Keep its field names
+ * in step with BookingInquiry.
+ */
+export const BOOKING_FORM_NAME = "booking";
+export const BOOKING_POST_URL = "/__forms.html";
+/** Hidden from people; bots that fill it in are dropped (netlify-honeypot) */
+export const HONEYPOT_FIELD = "bot-field";
+
+/** Sent as written; the form shows each locale's booking.eventTypes / booking.budgets label */
+export const EVENT_TYPES = ["Festival", "Concert / club night", "Tour", "Private event", "Brand activation", "Other"] as const;
+export const BUDGETS = ["Under $500", "$500–$1,500", "$1,500–$5,000", "$5,000+", "Not sure yet"] as const;
+
+export type BookingInquiry = {
+  /** YYYY-MM-DD */
+  date: string;
+  eventType: string;
+  location: string;
+  budget: string;
+  message: string;
+  name: string;
+  email: string;
+  phone: string;
+};
+
+export type BookingErrors = Partial<Record<keyof BookingInquiry, string>>;
+
+export const EMPTY_INQUIRY: BookingInquiry = {
+  date: "", eventType: "", location: "", budget: "", message: "", name: "", email: "", phone: "",
+};
+
+const MESSAGE_MIN = 20;
+const MESSAGE_MAX = 2000;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_RE = /^[+()\d\s.-]{7,20}$/;
+
+/** Today's date as YYYY-MM-DD in the visitor's own time zone. */
+export const localToday = (now = new Date()) =>
+  `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+
+/** Field → message (in the messages' language) for every problem; empty when the inquiry can be sent. */
+export function validateBooking(
+  b: BookingInquiry,
+  today = localToday(),
+  m: Messages["booking"]["errors"] = en.booking.errors
+): BookingErrors {
+  const e: BookingErrors = {};
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(b.date)) e.date = m.date;
+  else if (b.date < today) e.date = m.datePassed;
+  if (!(EVENT_TYPES as readonly string[]).includes(b.eventType)) e.eventType = m.eventType;
+  if (!b.location.trim()) e.location = m.location;
+  if (!(BUDGETS as readonly string[]).includes(b.budget)) e.budget = m.budget;
+  const msg = b.message.trim();
+  if (msg.length < MESSAGE_MIN) e.message = m.messageShort(MESSAGE_MIN);
+  else if (msg.length > MESSAGE_MAX) e.message = m.messageLong(MESSAGE_MAX);
+  if (!b.name.trim()) e.name = m.name;
+  if (!EMAIL_RE.test(b.email.trim())) e.email = m.email;
+  if (b.phone.trim() && !PHONE_RE.test(b.phone.trim())) e.phone = m.phone;
+  return e;
+}
+
+/** application/x-www-form-urlencoded body for a Netlify Forms POST. */
+export function netlifyFormBody(b: BookingInquiry): string {
+  const fields: Record<string, string> = { "form-name": BOOKING_FORM_NAME, ...b };
+  return Object.entries(fields)
+    .map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(v.trim())}`)
+    .join("&");
+}
+
+/** A mailto: link with the inquiry written out, for when the form can't be sent. */
+export function bookingMailto(b: BookingInquiry, to: string): string {
+  const subject = `Booking inquiry${b.eventType ? `: ${b.eventType}` : ""}${b.date ? ` on ${b.date}` : ""}`;
+  const body = [
+    `Date: ${b.date}`,
+    `Event type: ${b.eventType}`,
+    `Location: ${b.location}`,
+    `Budget: ${b.budget}`,
+    "",
+    b.message.trim(),
+    "",
+    `${b.name}`,
+    `${b.email}${b.phone ? ` · ${b.phone}` : ""}`,
+  ].join("\n");
+  return `mailto:${to}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+}
@@ -0,0 +1,12 @@
+/** Saves a file generated in the browser (nothing is uploaded; works on the static export). */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Safari needs the URL to outlive the click a little
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
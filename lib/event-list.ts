@@ -0,0 +1,24 @@
+import { defineEvents } from "./events";
+
+/**
+ * Upcoming and past shows, in any order. The next one's flier goes on the ground and
+ * gets an "Add to calendar" action; up to three recent ones are scattered around it.
+ * While nothing is listed, the promo flier from the scene manifest is shown instead.
+ *
+ * Put flier images in public/images and add an entry like:
+ *   {
+ *     id: "hill-country-nights-2025",
+ *     title: "Hill Country Nights",
+ *     start: "2025-11-08T20:00:00-06:00",
+ *     timeZone: "America/Chicago",
+ *     venue: "Gruene Hall",
+ *     city: "New Braunfels, TX",
+ *     ticketUrl: "https://...",
+ *     flier: { front: "/images/events/hcn-front.webp", back: "/images/events/hcn-back.webp" },
+ *   },
+ *
+ * A flier printed in other languages lists those under flier.locales (keys from LOCALES in
+ * lib/i18n.ts), and visitors browsing in that language see it instead:
+ *     flier: { front: ..., back: ..., locales: { es: { front: "/images/events/hcn-front-es.webp", back: ... } } },
+ */
+export const EVENTS = defineEvents([]);
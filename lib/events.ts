@@ -0,0 +1,189 @@
+import { imageMeta } from "./images";
+import { isLocale, type Locale } from "./i18n";
+import type { SceneItem } from "./scene";
+
+/** ------------ Shows calendar: which fliers lie on the ground, and .ics export ------------ */
+
+export type ShowEvent = {
+  id: string;
+  title: string;
+  /** ISO 8601 with a UTC offset, e.g. "2025-11-08T20:00:00-06:00" */
+  start: string;
+  /** Same format; defaults to start + DEFAULT_DURATION_H */
+  end?: string;
+  /** IANA zone the show happens in, for displaying its date and time */
+  timeZone: string;
+  venue: string;
+  city: string;
+  ticketUrl?: string;
+  flier: {
+    front: string;
+    back: string;
+    /** Artwork printed for other languages, same proportions as the default */
+    locales?: Partial<Record<Locale, { front: string; back: string }>>;
+  };
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_DURATION_H = 4;
+const PAST_FLIERS = 3;          // at most this many old fliers on the ground
+const PAST_WINDOW_DAYS = 365;   // and none older than this
+
+const validZone = (tz: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** Returns a list of human-readable problems; empty when the list is valid. */
+export function validateEvents(events: readonly ShowEvent[]): string[] {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  events.forEach((e, i) => {
+    const at = `events[${i}]${e?.id ? ` (${e.id})` : ""}`;
+    if (!/^[a-z0-9][a-z0-9-]*$/.test(e.id ?? "")) errors.push(`${at}: id must be kebab-case`);
+    else if (seen.has(e.id)) errors.push(`${at}: duplicate id`);
+    seen.add(e.id);
+
+    for (const k of ["title", "venue", "city"] as const) {
+      if (!e[k]?.trim()) errors.push(`${at}: ${k} is required`);
+    }
+    // An offset is required so "upcoming" means the same instant for every visitor
+    const hasOffset = (s: string) => /(Z|[+-]\d\d:\d\d)$/.test(s) && !Number.isNaN(Date.parse(s));
+    if (!hasOffset(e.start ?? "")) errors.push(`${at}: start must be ISO 8601 with a UTC offset`);
+    if (e.end != null) {
+      if (!hasOffset(e.end)) errors.push(`${at}: end must be ISO 8601 with a UTC offset`);
+      else if (Date.parse(e.end) <= Date.parse(e.start)) errors.push(`${at}: end must be after start`);
+    }
+    if (!validZone(e.timeZone ?? "")) errors.push(`${at}: timeZone must be an IANA zone like America/Chicago`);
+    if (e.ticketUrl != null && !/^https:\/\//.test(e.ticketUrl)) errors.push(`${at}: ticketUrl must be https`);
+    for (const side of ["front", "back"] as const) {
+      const src = e.flier?.[side];
+      if (!src || !imageMeta(src)) errors.push(`${at}: flier.${side} ${src ?? ""} is not in public/images`);
+    }
+    for (const [locale, variant] of Object.entries(e.flier?.locales ?? {})) {
+      if (!isLocale(locale)) { errors.push(`${at}: flier.locales.${locale} is not a supported locale`); continue; }
+      for (const side of ["front", "back"] as const) {
+        const src = variant?.[side];
+        if (!src || !imageMeta(src)) errors.push(`${at}: flier.locales.${locale}.${side} ${src ?? ""} is not in public/images`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+/** Validates at module load so a bad entry fails `next build` instead of shipping. */
+export function defineEvents(events: ShowEvent[]): readonly ShowEvent[] {
+  const errors = validateEvents(events);
+  if (errors.length) throw new Error(`Invalid events list:\n  - ${errors.join("\n  - ")}`);
+  return events;
+}
+
+export const eventStart = (e: ShowEvent) => Date.parse(e.start);
+export const eventEnd = (e: ShowEvent) =>
+  e.end ? Date.parse(e.end) : eventStart(e) + DEFAULT_DURATION_H * HOUR_MS;
+
+/** "Sat, Nov 8, 2025, 8:00 PM" in the show's own time zone. */
+export const formatEventDate = (e: ShowEvent, locale?: string) =>
+  new Date(e.start).toLocaleString(locale, {
+    weekday: "short", month: "short", day: "numeric", year: "numeric",
+    hour: "numeric", minute: "2-digit", timeZone: e.timeZone,
+  });
+
+/** The next show that hasn't ended yet, plus the most recent past ones (newest first). */
+export function pickEventFliers(events: readonly ShowEvent[], now: number) {
+  const upcoming = events
+    .filter((e) => eventEnd(e) > now)
+    .sort((a, b) => eventStart(a) - eventStart(b))[0];
+  const past = events
+    .filter((e) => eventEnd(e) <= now && now - eventEnd(e) < PAST_WINDOW_DAYS * 24 * HOUR_MS)
+    .sort((a, b) => eventStart(b) - eventStart(a))
+    .slice(0, PAST_FLIERS);
+  return { upcoming, past };
+}
+
+/**
+ * The ground for a given moment: the next show's flier takes the manifest flier's spot
+ * (same id, so ?focus=flier links keep working) and recent past fliers are scattered
+ * around it, smaller and underneath. Without an upcoming show the manifest flier stays.
+ */
+export function withEventFliers(scene: readonly SceneItem[], events: readonly ShowEvent[], now: number): readonly SceneItem[] {
+  const slot = scene.find((i) => i.focus.type === "flier");
+  if (!slot || events.length === 0) return scene;
+  const { upcoming, past } = pickEventFliers(events, now);
+
+  const asFlier = (e: ShowEvent, base: SceneItem): SceneItem => ({
+    ...base,
+    image: e.flier.front,
+    alt: `Flier: ${e.title}, ${e.venue}, ${formatEventDate(e, "en-US")}`,
+    focus: {
+      type: "flier",
+      backImage: e.flier.back,
+      eventId: e.id,
+      locales: e.flier.locales && Object.fromEntries(
+        Object.entries(e.flier.locales).map(([locale, v]) => [locale, v && { image: v.front, backImage: v.back }])
+      ),
+    },
+  });
+
+  const items = scene.map((i) => (i === slot && upcoming ? asFlier(upcoming, slot) : i));
+  for (const e of past) {
+    items.push(asFlier(e, {
+      ...slot,
+      id: `flier-${e.id}`,
+      designWidth: Math.round(slot.designWidth * 0.7),
+      bounds: undefined,
+      preferCenter: false,
+      z: slot.z - 5,
+    }));
+  }
+  return items;
+}
+
+/** ------------ iCalendar (RFC 5545) ------------ */
+
+const icsText = (s: string) => s.replace(/[\\;,]/g, (c) => `\\${c}`).replace(/\r?\n/g, "\\n");
+const icsTime = (ms: number) => new Date(ms).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+/** Lines longer than 75 octets continue on the next line after a space; never splits a UTF-8 character. */
+const fold = (line: string) => {
+  const utf8 = new TextEncoder();
+  const parts: string[] = [];
+  let cur = "";
+  let bytes = 0;
+  for (const ch of Array.from(line)) {
+    const n = utf8.encode(ch).length;
+    if (bytes + n > 74) { parts.push(cur); cur = ""; bytes = 0; }
+    cur += ch;
+    bytes += n;
+  }
+  parts.push(cur);
+  return parts.join("\r\n ");
+};
+
+/** A single-event calendar file; times are written in UTC so every calendar app agrees. */
+export function eventIcs(e: ShowEvent, opts: { domain: string; now?: number }): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:-//${opts.domain}//shows//EN`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:${e.id}@${opts.domain}`,
+    `DTSTAMP:${icsTime(opts.now ?? Date.now())}`,
+    `DTSTART:${icsTime(eventStart(e))}`,
+    `DTEND:${icsTime(eventEnd(e))}`,
+    `SUMMARY:${icsText(e.title)}`,
+    `LOCATION:${icsText(`${e.venue}, ${e.city}`)}`,
+    ...(e.ticketUrl ? [`URL:${e.ticketUrl}`, `DESCRIPTION:${icsText(`Tickets: ${e.ticketUrl}`)}`] : []),
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
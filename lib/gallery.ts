@@ -0,0 +1,79 @@
+import GALLERY from "../public/images/gallery.json";
+import { imageMeta } from "./images";
+
+/** ------------ Photo portfolio (public/images/gallery.json) ------------ */
+
+/*
+ * Only real shoots belong in the gallery. Put the files under public/images and add an album:
+ *
+ *   {
+ *     "id": "hill-country-nights",
+ *     "title": "Hill Country Nights",
+ *     "date": "2025-06-14",
+ *     "location": "Gruene, TX",
+ *     "credit": "Photo: Trey Green",
+ *     "photos": [
+ *       { "src": "/images/hill-country-nights-01.jpg", "alt": "Fiddle player under a single spotlight", "press": true }
+ *     ]
+ *   }
+ */
+
+export type Photo = {
+  src: string;
+  alt: string;
+  caption?: string;
+  /** Falls back to the album's credit */
+  credit?: string;
+  /** Included in the downloadable press kit */
+  press?: boolean;
+};
+
+export type Album = {
+  id: string;
+  title: string;
+  /** ISO date of the shoot */
+  date?: string;
+  location?: string;
+  credit?: string;
+  /** Defaults to the first photo */
+  cover?: string;
+  photos: Photo[];
+};
+
+/** Returns a list of human-readable problems; empty when the gallery is valid. */
+export function validateGallery(albums: readonly Album[]): string[] {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  albums.forEach((a, i) => {
+    const at = `albums[${i}]${a?.id ? ` (${a.id})` : ""}`;
+    if (!/^[a-z0-9][a-z0-9-]*$/.test(a.id ?? "")) errors.push(`${at}: id must be kebab-case`);
+    else if (seen.has(a.id)) errors.push(`${at}: duplicate id`);
+    seen.add(a.id);
+
+    if (!a.title?.trim()) errors.push(`${at}: title is required`);
+    if (a.date != null && Number.isNaN(Date.parse(a.date))) errors.push(`${at}: date must be ISO (YYYY-MM-DD)`);
+    if (a.cover != null && !imageMeta(a.cover)) errors.push(`${at}: cover ${a.cover} is not in public/images`);
+    if (!Array.isArray(a.photos) || a.photos.length === 0) errors.push(`${at}: needs at least one photo`);
+
+    (a.photos ?? []).forEach((p, j) => {
+      const pat = `${at}.photos[${j}]`;
+      // image-meta.json is regenerated before every build, so this catches typos and missing files
+      if (!imageMeta(p.src)) errors.push(`${pat}: ${p.src} is not in public/images`);
+      if (!p.alt?.trim()) errors.push(`${pat}: alt text is required`);
+    });
+  });
+
+  return errors;
+}
+
+function defineGallery(albums: Album[]): readonly Album[] {
+  const errors = validateGallery(albums);
+  if (errors.length) throw new Error(`Invalid public/images/gallery.json:\n  - ${errors.join("\n  - ")}`);
+  return albums;
+}
+
+export const ALBUMS = defineGallery(GALLERY.albums);
+
+export const albumCover = (a: Album) => a.cover ?? a.photos[0].src;
+export const photoCredit = (a: Album, p: Photo) => p.credit ?? a.credit;
@@ -0,0 +1,35 @@
+import { imageMeta } from "./images";
+import type { LayoutOpts, Spec } from "./layout";
+import type { SceneItem } from "./scene";
+
+/** ------------ Ground layout: scene items → layout specs for a viewport ------------ */
+
+export const GROUND_LAYOUT_OPTS = { marginXPct: 4, marginYPct: 6, paddingPx: 40 } satisfies LayoutOpts;
+
+/** Item sizes for a viewport: design widths scaled to its short side, heights and hitboxes from the measured images. */
+export function groundSpecs(scene: readonly SceneItem[], vw: number, vh: number): Spec[] {
+  const base = 1200;                     // design reference
+  const ref = Math.min(vw, vh);
+  const raw = ref / base;
+  const minScale = 0.7;
+  const maxScale = 1.2;
+  let scale = Math.min(maxScale, Math.max(minScale, raw));  // clamp
+  // Phones: shrink everything by 50%
+  if (ref < 700) scale *= 0.5;
+  const W = (designPx: number) => Math.max(40, Math.round(designPx * scale)); // keep a minimum
+
+  // Design widths come from the scene manifest; heights and opaque hitboxes from the measured images
+  return scene.map((item): Spec => {
+    const meta = imageMeta(item.image);
+    const widthPx = W(item.designWidth);
+    return {
+      id: item.id,
+      widthPx,
+      heightPx: Math.round(widthPx * (item.aspect ?? (meta ? meta.h / meta.w : 1))),
+      hitbox: meta?.opaque,
+      rotRange: item.rotRange,
+      boundsOverride: item.bounds,
+      preferCenter: item.preferCenter,
+    };
+  });
+}
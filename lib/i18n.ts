@@ -0,0 +1,62 @@
+import { de } from "./locales/de";
+import { en, type Messages } from "./locales/en";
+import { es } from "./locales/es";
+
+/** ------------ Locales: which languages the UI speaks, and how it formats dates for them ------------ */
+
+export type { Messages };
+
+export const LOCALES = ["en", "es", "de"] as const;
+export type Locale = (typeof LOCALES)[number];
+export const DEFAULT_LOCALE: Locale = "en";
+
+export const MESSAGES: Record<Locale, Messages> = { en, es, de };
+
+/** Region used for formatting when the visitor's own languages don't name one for the locale. */
+const DEFAULT_REGION: Record<Locale, string> = { en: "en-US", es: "es-ES", de: "de-DE" };
+
+/** For locales read back from outside (URL, storage). */
+export const isLocale = (s: string): s is Locale => (LOCALES as readonly string[]).includes(s);
+
+const language = (tag: string) => tag.toLowerCase().split("-")[0];
+
+/** The first of the visitor's languages (navigator.languages order) that has strings, else English. */
+export function matchLocale(preferred: readonly string[]): Locale {
+  for (const tag of preferred) {
+    const lang = language(tag);
+    if (isLocale(lang)) return lang;
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * BCP 47 tag for Intl formatting in `locale`: the visitor's own regional variant when they list
+ * one (so "en-GB" keeps its 24-hour clock while the strings stay English), else the default region.
+ */
+export function formatTag(locale: Locale, preferred: readonly string[]): string {
+  const own = preferred.find((tag) => language(tag) === locale);
+  if (own) {
+    try {
+      return Intl.getCanonicalLocales(own)[0];
+    } catch {
+      // Malformed tag from the browser: use the default region
+    }
+  }
+  return DEFAULT_REGION[locale];
+}
+
+/**
+ * Lock-screen clock in the tag's convention: `time` is "9:41" or "21:41", and `dayPeriod`
+ * ("PM", "p. m.") is split out so it can be drawn small; it's absent on 24-hour clocks.
+ */
+export function clockParts(date: Date, tag: string): { time: string; dayPeriod?: string } {
+  const parts = new Intl.DateTimeFormat(tag, { hour: "numeric", minute: "2-digit" }).formatToParts(date);
+  return {
+    time: parts.filter((p) => p.type !== "dayPeriod").map((p) => p.value).join("").trim(),
+    dayPeriod: parts.find((p) => p.type === "dayPeriod")?.value,
+  };
+}
+
+/** "Mon, Oct 19" / "lun, 19 oct" / "Mo., 19. Okt." under the lock-screen clock. */
+export const lockScreenDate = (date: Date, tag: string) =>
+  date.toLocaleDateString(tag, { weekday: "short", month: "short", day: "numeric" });
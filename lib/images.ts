@@ -0,0 +1,81 @@
+import IMAGE_META from "./image-meta.json";
+import IMAGE_VARIANTS from "./image-variants.json";
+
+/** Size + opaque bounds of a public image, measured by scripts/image-meta.mjs */
+export type ImageMeta = { w: number; h: number; opaque: readonly [number, number, number, number] };
+
+const META = IMAGE_META as unknown as Record<string, ImageMeta>;
+
+export const imageMeta = (src: string): ImageMeta | undefined => META[src];
+
+/** ------------ Resized variants and placeholders (scripts/image-variants.mjs) ------------ */
+
+/** Widths the image was resized to (its own width last) and a 16px-wide preview */
+export type ImageVariants = { widths: readonly number[]; placeholder: string };
+
+const VARIANTS = IMAGE_VARIANTS as unknown as Record<string, ImageVariants>;
+
+/** Images whose variant files were on disk when the build started (next.config.js) */
+const ON_DISK = new Set((process.env.IMAGE_VARIANTS_ON_DISK ?? "").split(","));
+
+/** An image's variants, if its files can actually be served; placeholders are inline, so they don't need this */
+const servedVariants = (src: string) => (ON_DISK.has(src) ? VARIANTS[src] : undefined);
+
+export type VariantFormat = "avif" | "webp";
+
+/** A <picture> uses the first <source> the browser can decode, so the smallest files go first */
+const FORMATS: readonly VariantFormat[] = ["avif", "webp"];
+
+// Same naming as scripts/image-variants.mjs
+export const variantUrl = (src: string, width: number, format: VariantFormat) =>
+  `/images-resized/${src.replace(/^\/images\//, "").replace(/\.[^.]+$/, "")}-${width}.${format}`;
+
+const srcSet = (src: string, v: ImageVariants, format: VariantFormat) =>
+  v.widths.map((w) => `${variantUrl(src, w, format)} ${w}w`).join(", ");
+
+/** <source> candidates for a <picture>, best format first; empty for images that weren't resized. */
+export function imageSources(src: string): { type: string; srcSet: string }[] {
+  const v = servedVariants(src);
+  return v ? FORMATS.map((f) => ({ type: `image/${f}`, srcSet: srcSet(src, v, f) })) : [];
+}
+
+/**
+ * The placeholder blurred in an SVG filter, so it scales up smooth instead of blocky
+ * (edgeMode="duplicate" keeps the borders from fading to transparent).
+ */
+export function blurPlaceholder(src: string): string | undefined {
+  const v = VARIANTS[src];
+  const m = META[src];
+  if (!v || !m) return undefined;
+  const w = 16;
+  const h = Math.max(1, Math.round((16 * m.h) / m.w));
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${w} ${h}" preserveAspectRatio="none">` +
+    `<filter id="b" color-interpolation-filters="sRGB"><feGaussianBlur stdDeviation="0.8" edgeMode="duplicate"/></filter>` +
+    `<image href="${v.placeholder}" width="${w}" height="${h}" preserveAspectRatio="none" filter="url(#b)"/></svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+const preloaded = new Set<string>();
+
+/**
+ * Starts downloading an image before it's shown. With `sizes` it preloads the AVIF variant
+ * a <picture> with the same sizes would pick (browsers without AVIF skip it); without, the original.
+ */
+export function preloadImage(src: string, sizes?: string) {
+  const key = `${src} ${sizes ?? ""}`;
+  if (preloaded.has(key)) return;
+  preloaded.add(key);
+  const link = document.createElement("link");
+  link.rel = "preload";
+  link.as = "image";
+  const v = servedVariants(src);
+  if (sizes && v) {
+    link.type = "image/avif";
+    link.setAttribute("imagesrcset", srcSet(src, v, "avif"));
+    link.setAttribute("imagesizes", sizes);
+  } else {
+    link.href = src;
+  }
+  document.head.appendChild(link);
+}
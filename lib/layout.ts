@@ -0,0 +1,462 @@
+import { randNorm, type Rng } from "./random";
+
+/** ------------ Layout (pixel-accurate, no-overlap, fully on-screen) ------------ */
+
+/** Fractions of the item box that are actually opaque: [x0, y0, x1, y1] */
+export type Hitbox = readonly [number, number, number, number];
+
+export type Spec = {
+  id: string;
+  widthPx: number;
+  heightPx: number;
+  /** Collide only this part of the box (e.g. alpha bounds of a PNG); whole box when omitted */
+  hitbox?: Hitbox;
+  rotRange: readonly [number, number];
+  boundsOverride?: { marginXPct?: number; marginYPct?: number; visibleFrac?: number };
+  preferCenter?: boolean;
+};
+export type PlacedPx = {
+  id: string;
+  cx: number;
+  cy: number;
+  rot: number;
+  widthPx: number;
+  heightPx: number;
+  hitbox?: Hitbox;
+};
+
+export type Bounds = { minX: number; maxX: number; minY: number; maxY: number };
+
+/** Oriented box in viewport px: center, half sizes and its local x-axis (cos, sin). */
+export type Obb = { cx: number; cy: number; hw: number; hh: number; ux: number; uy: number };
+
+/** Offset of the hitbox center from the item center, plus half sizes, before rotation. */
+function localHitbox(widthPx: number, heightPx: number, hitbox?: Hitbox) {
+  const [x0, y0, x1, y1] = hitbox ?? [0, 0, 1, 1];
+  return {
+    ox: ((x0 + x1) / 2 - 0.5) * widthPx,
+    oy: ((y0 + y1) / 2 - 0.5) * heightPx,
+    hw: ((x1 - x0) * widthPx) / 2,
+    hh: ((y1 - y0) * heightPx) / 2,
+  };
+}
+
+/** Collision shape of a placed item. CSS rotate is clockwise in y-down space, which this matches. */
+export function collisionBox(p: PlacedPx): Obb {
+  const { ox, oy, hw, hh } = localHitbox(p.widthPx, p.heightPx, p.hitbox);
+  const a = (p.rot * Math.PI) / 180;
+  const ux = Math.cos(a), uy = Math.sin(a);
+  return { cx: p.cx + ox * ux - oy * uy, cy: p.cy + ox * uy + oy * ux, hw, hh, ux, uy };
+}
+
+/** Half extents of the box's axis-aligned bounds. */
+const aabbHalf = (b: Obb) => ({
+  ex: Math.abs(b.hw * b.ux) + Math.abs(b.hh * b.uy),
+  ey: Math.abs(b.hw * b.uy) + Math.abs(b.hh * b.ux),
+});
+
+/** Range for an item's center that keeps `visibleFrac` of its rotated hitbox inside `area`. */
+export function centerBounds(p: PlacedPx, area: Bounds, visibleFrac: number): Bounds {
+  const box = collisionBox({ ...p, cx: 0, cy: 0 });
+  const { ex, ey } = aabbHalf(box);
+  return {
+    minX: area.minX + ex * visibleFrac - box.cx,
+    maxX: area.maxX - ex * visibleFrac - box.cx,
+    minY: area.minY + ey * visibleFrac - box.cy,
+    maxY: area.maxY - ey * visibleFrac - box.cy,
+  };
+}
+
+/** Viewports below this (shorter side) get bigger padding, zero margins and stricter visibility. */
+export const isSmallViewport = (vw: number, vh: number) => Math.min(vw, vh) < 700;
+
+/** Minimum gap between hitboxes; shared by the layout and anything that moves items later. */
+export const layoutPaddingPx = (vw: number, vh: number, requestedPx = 16) =>
+  Math.max(requestedPx, isSmallViewport(vw, vh) ? 48 : 40);
+
+/**
+ * Separating-axis test between two oriented boxes, each inflated by pad/2.
+ * Returns the minimum push (axis + depth, pointing from a to b) or null when they are apart.
+ */
+export function obbOverlap(a: Obb, b: Obb, pad = 0): { nx: number; ny: number; depth: number } | null {
+  const dx = b.cx - a.cx;
+  const dy = b.cy - a.cy;
+  const ahw = a.hw + pad / 2, ahh = a.hh + pad / 2;
+  const bhw = b.hw + pad / 2, bhh = b.hh + pad / 2;
+  // Apart on the axis-aligned bounds means apart; that settles most pairs the grid hands over
+  if (
+    Math.abs(dx) >= ahw * Math.abs(a.ux) + ahh * Math.abs(a.uy) + bhw * Math.abs(b.ux) + bhh * Math.abs(b.uy) ||
+    Math.abs(dy) >= ahw * Math.abs(a.uy) + ahh * Math.abs(a.ux) + bhw * Math.abs(b.uy) + bhh * Math.abs(b.ux)
+  ) return null;
+  const axes = [
+    [a.ux, a.uy], [-a.uy, a.ux],
+    [b.ux, b.uy], [-b.uy, b.ux],
+  ];
+
+  let best: { nx: number; ny: number; depth: number } | null = null;
+  for (const [nx, ny] of axes) {
+    const ra = ahw * Math.abs(a.ux * nx + a.uy * ny) + ahh * Math.abs(-a.uy * nx + a.ux * ny);
+    const rb = bhw * Math.abs(b.ux * nx + b.uy * ny) + bhh * Math.abs(-b.uy * nx + b.ux * ny);
+    const d = dx * nx + dy * ny;
+    const depth = ra + rb - Math.abs(d);
+    if (depth <= 0) return null;
+    if (!best || depth < best.depth) {
+      const s = d < 0 ? -1 : 1;
+      best = { nx: nx * s, ny: ny * s, depth };
+    }
+  }
+  return best;
+}
+
+/** Grid cell size for a set of boxes: the largest box plus padding, so `buildGrid` never misses an overlap. */
+export function gridCellSize(placed: PlacedPx[], paddingPx: number) {
+  let cell = 1;
+  for (const p of placed) {
+    const { ex, ey } = aabbHalf(collisionBox(p));
+    cell = Math.max(cell, 2 * Math.max(ex, ey) + paddingPx);
+  }
+  return cell;
+}
+
+/** Uniform grid over box centers; cells are at least as big as the largest box, so overlaps are always in adjacent cells. */
+export function buildGrid(boxes: Obb[], cell: number) {
+  const grid = new Map<number, number[]>();
+  const key = (gx: number, gy: number) => (gx + 1024) * 4096 + (gy + 1024); // unique for any sane viewport
+  boxes.forEach((b, i) => {
+    const k = key(Math.floor(b.cx / cell), Math.floor(b.cy / cell));
+    const bucket = grid.get(k);
+    if (bucket) bucket.push(i);
+    else grid.set(k, [i]);
+  });
+  return (b: Obb, visit: (j: number) => void) => {
+    const gx = Math.floor(b.cx / cell);
+    const gy = Math.floor(b.cy / cell);
+    for (let x = gx - 1; x <= gx + 1; x++) {
+      for (let y = gy - 1; y <= gy + 1; y++) {
+        const bucket = grid.get(key(x, y));
+        if (bucket) for (const j of bucket) visit(j);
+      }
+    }
+  };
+}
+
+const clampTo = (p: PlacedPx, b: Bounds) => {
+  p.cx = Math.min(b.maxX, Math.max(b.minX, p.cx));
+  p.cy = Math.min(b.maxY, Math.max(b.minY, p.cy));
+};
+
+/** Resolve overlaps with an iterative relaxation step. preferMap makes favored items move less.
+ *  Converged means a whole sweep found nothing to push apart before maxIters ran out. */
+function relaxLayout(
+  placed: PlacedPx[],
+  bounds: Bounds[],
+  paddingPx: number,
+  maxIters: number,
+  preferMap: Record<string, boolean>,
+  rng: Rng
+): { iterations: number; converged: boolean } {
+  const jitter = 0.25;
+
+  // Boxes keep their shape and rotation while relaxing, so the cell size is fixed
+  const cell = gridCellSize(placed, paddingPx);
+
+  for (let iter = 0; iter < maxIters; iter++) {
+    let moved = false;
+    const boxes = placed.map(collisionBox);
+    const neighbours = buildGrid(boxes, cell);
+
+    for (let i = 0; i < placed.length; i++) {
+      neighbours(boxes[i], (j) => {
+        if (j <= i) return;
+        const a = placed[i];
+        const b = placed[j];
+        const hit = obbOverlap(boxes[i], boxes[j], paddingPx);
+        if (!hit) return;
+
+        // Favor center-preferred elements (move them less)
+        const aFav = !!preferMap[a.id];
+        const bFav = !!preferMap[b.id];
+        let moveA = 0.5;
+        if (aFav && !bFav) moveA = 0.35;
+        else if (!aFav && bFav) moveA = 0.65;
+
+        const push = hit.depth + 0.25; // small extra to avoid re-colliding
+        a.cx -= hit.nx * push * moveA;
+        a.cy -= hit.ny * push * moveA;
+        b.cx += hit.nx * push * (1 - moveA);
+        b.cy += hit.ny * push * (1 - moveA);
+
+        // jitter to avoid stalemates
+        a.cx += (rng() - 0.5) * jitter;
+        a.cy += (rng() - 0.5) * jitter;
+        b.cx += (rng() - 0.5) * jitter;
+        b.cy += (rng() - 0.5) * jitter;
+
+        // keep the cached boxes in step so later pairs this sweep see the move
+        boxes[i] = collisionBox(a);
+        boxes[j] = collisionBox(b);
+        moved = true;
+      });
+    }
+
+    // clamp to each item's own bounds
+    placed.forEach((p, i) => clampTo(p, bounds[i]));
+
+    if (!moved) return { iterations: iter + 1, converged: true };
+  }
+  return { iterations: maxIters, converged: false };
+}
+
+/** What a layout run decided, for the ?debug=layout overlay. */
+export type LayoutReport = {
+  viewport: { w: number; h: number };
+  smallViewport: boolean;
+  paddingPx: number;
+  /** The area items are kept inside, with the default margins */
+  area: Bounds;
+  items: Record<string, {
+    /** Its own area (margin overrides applied) */
+    area: Bounds;
+    /** Where its center may go so visibleFrac of the rotated hitbox stays in `area` */
+    center: Bounds;
+    visibleFrac: number;
+  }>;
+  /** Sizes and padding relative to the specs; below 1 when the scene had to shrink to fit */
+  scale: number;
+  /** Layouts tried before one settled; each retry shrinks everything a bit more */
+  attempts: number;
+  iterations: number;
+  maxIterations: number;
+  converged: boolean;
+};
+
+export type LayoutOpts = {
+  marginXPct?: number;
+  marginYPct?: number;
+  paddingPx?: number;
+  onReport?: (report: LayoutReport) => void;
+};
+
+/** At most this much of the viewport is covered by hitboxes plus padding; crowded scenes shrink to it. */
+const MAX_FILL = 0.5;
+/** Each layout that doesn't settle is tried again with everything this much smaller. */
+const RETRY_SHRINK = 0.9;
+
+/** Everything about a viewport that placement and relaxing share: padding, per-item bounds, who's favored. */
+function layoutRules(specs: Spec[], vw: number, vh: number, opts?: LayoutOpts) {
+  // Mobile-aware visibility: keep at least 60% on screen, bump to 85% on small viewports
+  const smallViewport = isSmallViewport(vw, vh);
+  const defaultVisibleFrac = smallViewport ? 0.85 : 0.6;
+
+  // Base margins (percent), but enforce zero on small viewports
+  const baseMarginXPx = (opts?.marginXPct ?? 6) / 100 * vw;
+  const baseMarginYPx = (opts?.marginYPct ?? 8) / 100 * vh;
+  const marginXPx = smallViewport ? 0 : Math.max(baseMarginXPx, 12);
+  const marginYPx = smallViewport ? 0 : Math.max(baseMarginYPx, 12);
+
+  const areaFor = (s?: Spec): Bounds => {
+    const mx = smallViewport ? 0 : (s?.boundsOverride?.marginXPct != null ? (s.boundsOverride.marginXPct / 100) * vw : marginXPx);
+    const my = smallViewport ? 0 : (s?.boundsOverride?.marginYPct != null ? (s.boundsOverride.marginYPct / 100) * vh : marginYPx);
+    return { minX: mx, maxX: vw - mx, minY: my, maxY: vh - my };
+  };
+  const visibleFracFor = (s: Spec) => s.boundsOverride?.visibleFrac ?? defaultVisibleFrac;
+
+  // Bounds on the item center, from the rotated hitbox so the visible part stays on-screen
+  const boundsFor = (p: PlacedPx, s: Spec): Bounds => centerBounds(p, areaFor(s), visibleFracFor(s));
+
+  const preferMap: Record<string, boolean> = {};
+  for (const s of specs) preferMap[s.id] = !!s.preferCenter;
+
+  const padPx = layoutPaddingPx(vw, vh, opts?.paddingPx);
+  const maxIters = smallViewport ? 900 : 700;
+
+  // Scale for sizes and padding together so the scene covers at most MAX_FILL of the viewport
+  const covered = specs.reduce((sum, s) => {
+    const { hw, hh } = localHitbox(s.widthPx, s.heightPx, s.hitbox);
+    return sum + (2 * hw + padPx) * (2 * hh + padPx);
+  }, 0);
+  const fitScale = covered > 0 ? Math.min(1, Math.sqrt((MAX_FILL * vw * vh) / covered)) : 1;
+
+  const report = (placed: PlacedPx[], bounds: Bounds[], relaxed: Settled) => {
+    if (!opts?.onReport) return;
+    const bySpec = new Map(specs.map((s) => [s.id, s]));
+    const items: LayoutReport["items"] = {};
+    placed.forEach((p, i) => {
+      const s = bySpec.get(p.id);
+      if (s) items[p.id] = { area: areaFor(s), center: bounds[i], visibleFrac: visibleFracFor(s) };
+    });
+    opts.onReport({
+      viewport: { w: vw, h: vh },
+      smallViewport,
+      paddingPx: padPx * relaxed.scale,
+      area: areaFor(),
+      items,
+      scale: relaxed.scale,
+      attempts: relaxed.attempts,
+      iterations: relaxed.iterations,
+      maxIterations: maxIters,
+      converged: relaxed.converged,
+    });
+  };
+
+  return { padPx, fitScale, boundsFor, preferMap, maxIters, report };
+}
+
+type Settled = { iterations: number; converged: boolean; scale: number; attempts: number };
+
+/**
+ * Places and relaxes until a layout settles, starting at the rules' fit scale and shrinking
+ * sizes and padding by RETRY_SHRINK after every attempt that doesn't, so what comes back never
+ * overlaps (it ends because shrinking boxes eventually leave nothing to push apart).
+ * `place` lays the scaled specs out (drawing from rng, so each retry differs) and returns
+ * positions with their center bounds.
+ */
+function settle(
+  specs: Spec[],
+  rules: ReturnType<typeof layoutRules>,
+  rng: Rng,
+  place: (specs: Spec[]) => { placed: PlacedPx[]; bounds: Bounds[] }
+): { placed: PlacedPx[]; bounds: Bounds[]; settled: Settled } {
+  for (let attempt = 1, scale = rules.fitScale; ; attempt++, scale *= RETRY_SHRINK) {
+    const scaled = scale === 1 ? specs : specs.map((s) => ({ ...s, widthPx: s.widthPx * scale, heightPx: s.heightPx * scale }));
+    const { placed, bounds } = place(scaled);
+    const relaxed = relaxLayout(placed, bounds, rules.padPx * scale, rules.maxIters, rules.preferMap, rng);
+    if (relaxed.converged) return { placed, bounds, settled: { ...relaxed, scale, attempts: attempt } };
+  }
+}
+
+/** Place items with visibility bounds, optional center-bias, and relax to remove overlaps.
+ *  Deterministic: the same rng seed and viewport always give the same layout. */
+export function generateNonOverlappingLayoutPx(
+  specs: Spec[],
+  vw: number,
+  vh: number,
+  rng: Rng,
+  opts?: LayoutOpts
+): PlacedPx[] {
+  const rules = layoutRules(specs, vw, vh, opts);
+
+  // Prefer-center items should be placed first, then by visible size
+  const visibleArea = (s: Spec) => {
+    const { hw, hh } = localHitbox(s.widthPx, s.heightPx, s.hitbox);
+    return hw * hh;
+  };
+  const ordered = [...specs].sort((a, b) => {
+    const ac = a.preferCenter ? 1 : 0;
+    const bc = b.preferCenter ? 1 : 0;
+    if (ac !== bc) return bc - ac;
+    return visibleArea(b) - visibleArea(a);
+  });
+
+  // Initial placement with optional center bias
+  const { placed, bounds, settled } = settle(ordered, rules, rng, (scaled) => {
+    const perBounds: Bounds[] = [];
+    const placed = scaled.map((s) => {
+      const rot = rng() * (s.rotRange[1] - s.rotRange[0]) + s.rotRange[0];
+      const p: PlacedPx = { id: s.id, cx: 0, cy: 0, rot, widthPx: s.widthPx, heightPx: s.heightPx, hitbox: s.hitbox };
+      const b = rules.boundsFor(p, s);
+      perBounds.push(b);
+
+      if (s.preferCenter && rng() < 0.8) {
+        const sigmaX = (b.maxX - b.minX) * 0.2;
+        const sigmaY = (b.maxY - b.minY) * 0.2;
+        p.cx = vw / 2 + randNorm(rng) * sigmaX;
+        p.cy = vh / 2 + randNorm(rng) * sigmaY;
+      } else {
+        p.cx = rng() * (b.maxX - b.minX) + b.minX;
+        p.cy = rng() * (b.maxY - b.minY) + b.minY;
+      }
+      clampTo(p, b);
+      return p;
+    });
+    return { placed, bounds: perBounds };
+  });
+
+  rules.report(placed, bounds, settled);
+  return placed;
+}
+
+/**
+ * Carries a layout over to a new viewport instead of starting again: every item keeps its
+ * center as a fraction of the viewport and its rotation, takes its size from `specs` (shrunk
+ * like a fresh layout when they don't fit), and
+ * the result is relaxed from there. Adapting back to the original viewport gives the
+ * original layout. Items `prev` doesn't know start in the middle.
+ */
+export function adaptLayoutPx(
+  prev: PlacedPx[],
+  prevViewport: { w: number; h: number },
+  specs: Spec[],
+  vw: number,
+  vh: number,
+  rng: Rng,
+  opts?: LayoutOpts
+): PlacedPx[] {
+  const rules = layoutRules(specs, vw, vh, opts);
+  const before = new Map(prev.map((p) => [p.id, p]));
+
+  const { placed, bounds, settled } = settle(specs, rules, rng, (scaled) => {
+    const perBounds: Bounds[] = [];
+    const placed = scaled.map((s): PlacedPx => {
+      const old = before.get(s.id);
+      const p: PlacedPx = {
+        id: s.id,
+        cx: old ? (old.cx / prevViewport.w) * vw : vw / 2,
+        cy: old ? (old.cy / prevViewport.h) * vh : vh / 2,
+        rot: old?.rot ?? (s.rotRange[0] + s.rotRange[1]) / 2,
+        widthPx: s.widthPx,
+        heightPx: s.heightPx,
+        hitbox: s.hitbox,
+      };
+      const b = rules.boundsFor(p, s);
+      perBounds.push(b);
+      clampTo(p, b);
+      return p;
+    });
+    return { placed, bounds: perBounds };
+  });
+
+  rules.report(placed, bounds, settled);
+  return placed;
+}
+
+/** ------------ Invariants ------------ */
+
+export type LayoutViolation =
+  | { kind: "overlap"; ids: [string, string]; depth: number }
+  | { kind: "offscreen"; id: string; byPx: number };
+
+const CHECK_TOLERANCE_PX = 0.5;
+
+/**
+ * The layout's promise, checked from scratch: no two hitboxes overlap, and every item keeps
+ * its visibleFrac on screen. Pure, so it can be run over any list of viewport sizes.
+ * Empty when the layout holds up.
+ */
+export function checkLayoutPx(placed: PlacedPx[], specs: Spec[], vw: number, vh: number, opts?: LayoutOpts): LayoutViolation[] {
+  const rules = layoutRules(specs, vw, vh, opts);
+  const bySpec = new Map(specs.map((s) => [s.id, s]));
+  const violations: LayoutViolation[] = [];
+
+  const boxes = placed.map(collisionBox);
+  for (let i = 0; i < placed.length; i++) {
+    for (let j = i + 1; j < placed.length; j++) {
+      const hit = obbOverlap(boxes[i], boxes[j]);
+      if (hit && hit.depth > CHECK_TOLERANCE_PX) violations.push({ kind: "overlap", ids: [placed[i].id, placed[j].id], depth: hit.depth });
+    }
+  }
+
+  for (const p of placed) {
+    const s = bySpec.get(p.id);
+    if (!s) continue;
+    const b = rules.boundsFor(p, s);
+    // An item too big for its area has an empty range; its best spot is the clamped one
+    const byPx = Math.max(
+      b.minX <= b.maxX ? b.minX - p.cx : 0, b.minX <= b.maxX ? p.cx - b.maxX : 0,
+      b.minY <= b.maxY ? b.minY - p.cy : 0, b.minY <= b.maxY ? p.cy - b.maxY : 0
+    );
+    if (byPx > CHECK_TOLERANCE_PX) violations.push({ kind: "offscreen", id: p.id, byPx });
+  }
+
+  return violations;
+}
@@ -0,0 +1,14 @@
+import { defineLinks } from "./links";
+
+/**
+ * Outbound links, in the order they're shown everywhere (lock screen, Links and Contact
+ * apps, press kit). `featured` links get a full-size banner on the lock screen; the rest
+ * get a compact one. Supported platforms: instagram, facebook, x, youtube, spotify,
+ * tiktok, linktree and website, e.g.
+ *   { platform: "spotify", href: "https://open.spotify.com/artist/...", handle: "TSG Photog" },
+ */
+export const LINKS = defineLinks([
+  { platform: "instagram", href: "https://instagram.com/tsgphotog", featured: true },
+  { platform: "facebook", href: "https://www.facebook.com/profile.php?id=61578343060127", handle: "TSG Photog", featured: true },
+  { platform: "website", href: "https://www.tsgphotog.com", featured: true },
+]);
@@ -0,0 +1,157 @@
+/** ------------ Outbound links (socials, website) and how each platform is branded ------------ */
+
+export type LinkPlatform = "instagram" | "facebook" | "x" | "youtube" | "spotify" | "tiktok" | "linktree" | "website";
+
+export type SocialLink = {
+  platform: LinkPlatform;
+  href: string;
+  /** Shown under the platform name; defaults to what can be read off the URL */
+  handle?: string;
+  /** Drawn as a full-size banner on the lock screen */
+  featured?: boolean;
+  /** Overrides the platform's call to action ("Follow", "Listen", …) */
+  cta?: string;
+};
+
+/** CSS colors for a banner: `background` can be any CSS background (gradients included). */
+export type LinkBrand = { background: string; text: string };
+
+type Platform = {
+  label: string;
+  cta: string;
+  brand: LinkBrand;
+  /** Hosts a link may point at; any host is fine when absent */
+  hosts?: readonly string[];
+  /** Reads the handle off a parsed URL's path segments (and host, for websites) */
+  handle: (segments: string[], url: URL) => string | undefined;
+};
+
+const first = (segments: string[]) => segments[0];
+const withAt = (s?: string) => (s ? (s.startsWith("@") ? s : `@${s}`) : undefined);
+
+export const PLATFORMS: Record<LinkPlatform, Platform> = {
+  instagram: {
+    label: "Instagram",
+    cta: "Follow",
+    brand: { background: "linear-gradient(90deg, #f58529, #dd2a7b 55%, #8134af)", text: "#fff" },
+    hosts: ["instagram.com"],
+    handle: (s) => withAt(first(s)),
+  },
+  facebook: {
+    label: "Facebook",
+    cta: "Follow",
+    brand: { background: "#1877f2", text: "#fff" },
+    hosts: ["facebook.com", "fb.com"],
+    // profile.php?id=… pages have no readable name
+    handle: (s) => (s[0] === "profile.php" ? undefined : first(s)),
+  },
+  x: {
+    label: "X",
+    cta: "Follow",
+    brand: { background: "#000", text: "#fff" },
+    hosts: ["x.com", "twitter.com"],
+    handle: (s) => withAt(first(s)),
+  },
+  youtube: {
+    label: "YouTube",
+    cta: "Subscribe",
+    brand: { background: "#ff0000", text: "#fff" },
+    hosts: ["youtube.com", "youtu.be"],
+    handle: (s) => (s[0]?.startsWith("@") ? s[0] : undefined),
+  },
+  spotify: {
+    label: "Spotify",
+    cta: "Listen",
+    brand: { background: "#1db954", text: "#000" },
+    hosts: ["open.spotify.com", "spotify.com"],
+    // Spotify URLs carry ids, not names
+    handle: () => undefined,
+  },
+  tiktok: {
+    label: "TikTok",
+    cta: "Follow",
+    brand: { background: "linear-gradient(90deg, #25f4ee, #000 30%, #000 70%, #fe2c55)", text: "#fff" },
+    hosts: ["tiktok.com"],
+    handle: (s) => withAt(first(s)),
+  },
+  linktree: {
+    label: "Linktree",
+    cta: "Open",
+    brand: { background: "#43e660", text: "#000" },
+    hosts: ["linktr.ee"],
+    handle: (s) => first(s),
+  },
+  website: {
+    label: "Website",
+    cta: "Visit",
+    brand: { background: "linear-gradient(90deg, #27272a, #3f3f46)", text: "#fff" },
+    handle: (_, url) => url.hostname.replace(/^www\./, ""),
+  },
+};
+
+const parse = (href: string) => {
+  try {
+    return new URL(href);
+  } catch {
+    return null;
+  }
+};
+
+const onHost = (url: URL, hosts: readonly string[]) => {
+  const host = url.hostname.replace(/^www\./, "");
+  return hosts.some((h) => host === h || host.endsWith(`.${h}`));
+};
+
+/** Returns a list of human-readable problems; empty when the list is valid. */
+export function validateLinks(links: readonly SocialLink[]): string[] {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  links.forEach((l, i) => {
+    const at = `links[${i}]${l?.platform ? ` (${l.platform})` : ""}`;
+    const platform = PLATFORMS[l.platform];
+    if (!platform) {
+      errors.push(`${at}: platform must be one of ${Object.keys(PLATFORMS).join(", ")}`);
+      return;
+    }
+    const url = parse(l.href ?? "");
+    if (!url || url.protocol !== "https:") errors.push(`${at}: href must be an https URL`);
+    else if (platform.hosts && !onHost(url, platform.hosts)) errors.push(`${at}: href is not a ${platform.label} URL`);
+    if (seen.has(l.href)) errors.push(`${at}: duplicate href`);
+    seen.add(l.href);
+  });
+
+  return errors;
+}
+
+export function defineLinks(links: SocialLink[]): readonly SocialLink[] {
+  const errors = validateLinks(links);
+  if (errors.length) throw new Error(`Invalid links list:\n  - ${errors.join("\n  - ")}`);
+  return links;
+}
+
+/** Everything a banner, icon row or text export needs about a link. */
+export type ResolvedLink = {
+  platform: LinkPlatform;
+  label: string;
+  href: string;
+  handle?: string;
+  cta: string;
+  brand: LinkBrand;
+  featured: boolean;
+};
+
+export function resolveLink(link: SocialLink): ResolvedLink {
+  const platform = PLATFORMS[link.platform];
+  const url = parse(link.href);
+  const segments = url ? url.pathname.split("/").filter(Boolean) : [];
+  return {
+    platform: link.platform,
+    label: platform.label,
+    href: link.href,
+    handle: link.handle ?? (url ? platform.handle(segments, url) : undefined),
+    cta: link.cta ?? platform.cta,
+    brand: platform.brand,
+    featured: !!link.featured,
+  };
+}
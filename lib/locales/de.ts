@@ -0,0 +1,182 @@
+import type { Messages } from "./en";
+
+/** ------------ UI strings: German ------------ */
+
+export const de: Messages = {
+  languageName: "Deutsch",
+
+  ground: {
+    label: "Festivalgelände",
+    hint: "Mit den Pfeiltasten zwischen den Gegenständen wechseln, mit Enter einen öffnen.",
+    focusHints: {
+      flier: "Konzertplakat. Öffnet sich in voller Größe; umdrehen, um die Rückseite zu lesen.",
+      phone: "Öffnet das Handy: Buchungsanfragen, Bio, Fotogalerie, Kontakt und Links.",
+      trash: "Öffnet eine Nahaufnahme.",
+    },
+    cleanUp: "Aufräumen",
+    cleanUpTitle: "Jedes Stück Müll vom Boden aufsammeln",
+    usageStats: "Anonyme Nutzungsstatistiken teilen",
+    show3d: "Gelände in 3D zeigen",
+    reshuffle: "Neu mischen",
+    reshuffleLabel: "Anordnung neu mischen",
+    seed: (seed) => `Seed der Anordnung: ${seed}`,
+    language: "Sprache",
+    sound: "Ton",
+    soundOn: "Festivalton einschalten",
+    soundOff: "Festivalton stummschalten",
+    tilt: "Neigen",
+    tiltTitle: "Das Gelände durch Neigen des Handys bewegen",
+  },
+
+  items: {
+    "flier": "Konzertplakat",
+    "phone": "Handy, das auf dem Boden liegt",
+    "trash-dino": "Perlenarmband mit Dinosaurier",
+    "trash-band": "Festivalbändchen",
+    "trash-cup": "Zerdrückter Plastikbecher",
+    "trash-bottle": "Leere Wasserflasche",
+    "trash-flipflop": "Verlorener Flip-Flop",
+    "trash-glowstick": "Knicklicht",
+    "trash-keys": "Verlorener Schlüsselbund",
+    "trash-lighter": "Feuerzeug",
+    "trash-vape": "Einweg-Vape",
+  },
+
+  overlay: {
+    close: "Schließen",
+    closeOverlay: "Ansicht schließen",
+    phone: "Handy",
+  },
+
+  flier: {
+    eventAlt: (title, venue, date) => `Plakat: ${title}, ${venue}, ${date}`,
+    dialog: (alt, side) => `${alt}, ${side === "front" ? "Vorderseite" : "Rückseite"}`,
+    front: (alt) => `${alt} (Vorderseite)`,
+    back: (alt) => `${alt} (Rückseite)`,
+    flip: "Umdrehen",
+    flipToBack: "Zur Rückseite drehen",
+    flipToFront: "Zur Vorderseite drehen",
+    pastShow: "(vergangenes Konzert)",
+    tickets: "Tickets",
+    addToCalendar: "Zum Kalender hinzufügen",
+  },
+
+  story: {
+    photo: (title) => `Foto vom Shooting: ${title}`,
+    seeAlbum: "Zum Album",
+  },
+
+  cleanup: {
+    pickedUp: "aufgesammelt",
+    reward: "Belohnung",
+    resetGround: "Gelände zurücksetzen",
+    stop: "Aufräumspiel beenden",
+    clean: "Das Gelände ist sauber",
+    cleanHeading: "Das Gelände ist sauber!",
+    allPickedUp: (count) => `Alle ${count} Teile aufgesammelt.`,
+    pressKit: "Danke fürs Helfen! Nimm die Pressemappe mit:",
+  },
+
+  consent: {
+    label: "Nutzungsstatistiken",
+    question: "Anonyme Nutzungsstatistiken teilen?",
+    detail: "Welche Gegenstände wie lange geöffnet und welche Links angeklickt werden. Keine Cookies und nichts, was dich identifiziert.",
+    deny: "Nein danke",
+    allow: "Erlauben",
+  },
+
+  phone: {
+    swipeToUnlock: "Zum Entsperren nach oben wischen",
+    lock: "Handy sperren",
+    back: "Zurück zum Startbildschirm",
+    apps: "Apps",
+    appNames: { book: "Buchen", bio: "Bio", gallery: "Galerie", contact: "Kontakt", links: "Links" },
+    notifications: "Benachrichtigungen",
+    open: "Öffnen",
+    dismiss: "Schließen",
+    ago: {
+      now: "jetzt",
+      minutes: (n) => `${n} Min.`,
+      hours: (n) => `${n} Std.`,
+      days: (n) => `${n} T.`,
+    },
+    bookInquiry: "Buchungsanfrage senden",
+  },
+
+  pressKit: {
+    download: "Pressemappe herunterladen",
+    packing: "Wird gepackt…",
+    pdfLabel: "One-Sheet als PDF herunterladen",
+    contents: (photos) => `Plakat, ${photos ? "Fotos, " : ""}Bio, Links und ein druckbares One-Sheet.`,
+    failed: "Die Pressemappe konnte hier nicht erstellt werden. Frag sie an unter",
+    failedRetry: "Die Pressemappe konnte hier nicht erstellt werden. Versuch es gleich noch einmal.",
+    request: "Anfrage Pressemappe",
+  },
+
+  gallery: {
+    photos: (n) => (n === 1 ? "1 Foto" : `${n} Fotos`),
+    albums: "Alben",
+    empty: "Noch keine Alben.",
+    open: (n, alt) => `Foto ${n} öffnen: ${alt}`,
+    position: (album, n, count) => `${album}, Foto ${n} von ${count}`,
+    close: "Foto schließen",
+    previous: "Vorheriges Foto",
+    next: "Nächstes Foto",
+  },
+
+  booking: {
+    intro: "Erzähl mir von deiner Veranstaltung, dann melde ich mich mit Verfügbarkeit und Preisen.",
+    honeypot: "Dieses Feld leer lassen",
+    fields: {
+      date: "Datum",
+      eventType: "Art der Veranstaltung",
+      location: "Ort",
+      budget: "Budget",
+      message: "Nachricht",
+      name: "Dein Name",
+      email: "E-Mail",
+      phone: "Telefon",
+    },
+    choose: "Auswählen…",
+    locationPlaceholder: "Location, Stadt",
+    messagePlaceholder: "Spielzeiten, was abgedeckt werden soll, Lieferumfang…",
+    optional: "Optional",
+    eventTypes: {
+      "Festival": "Festival",
+      "Concert / club night": "Konzert / Clubnacht",
+      "Tour": "Tour",
+      "Private event": "Private Veranstaltung",
+      "Brand activation": "Markenaktion",
+      "Other": "Sonstiges",
+    },
+    budgets: {
+      "Under $500": "Unter 500 $",
+      "$500–$1,500": "500–1.500 $",
+      "$1,500–$5,000": "1.500–5.000 $",
+      "$5,000+": "Über 5.000 $",
+      "Not sure yet": "Noch offen",
+    },
+    errors: {
+      date: "Wähle das Datum der Veranstaltung.",
+      datePassed: "Dieses Datum ist schon vorbei.",
+      eventType: "Wähle die Art der Veranstaltung.",
+      location: "Wo findet sie statt?",
+      budget: "Wähle einen Budgetrahmen.",
+      messageShort: (min) => `Erzähl mir etwas mehr (mindestens ${min} Zeichen).`,
+      messageLong: (max) => `Bitte bleib unter ${max} Zeichen.`,
+      name: "Dein Name, bitte.",
+      email: "Gib eine E-Mail-Adresse an, auf die ich antworten kann.",
+      phone: "Das sieht nicht wie eine Telefonnummer aus.",
+    },
+    sent: "Anfrage gesendet",
+    thanks: (name, email) => `Danke${name ? `, ${name}` : ""}! Du bekommst eine Antwort an ${email}.`,
+    sendAnother: "Noch eine senden",
+    failed: "Die Anfrage konnte nicht von hier gesendet werden. Deine Angaben stehen schon in einer E-Mail:",
+    emailTo: (to) => `E-Mail an ${to}`,
+    failedRetry: "Die Anfrage konnte nicht von hier gesendet werden. Versuch es gleich noch einmal.",
+    send: "Anfrage senden",
+    sending: "Wird gesendet…",
+    preferEmail: "Lieber per E-Mail?",
+    openMail: "In deiner Mail-App öffnen",
+  },
+};
@@ -0,0 +1,177 @@
+/** ------------ UI strings: English (the reference; every other locale has the same shape) ------------ */
+
+export const en = {
+  /** In its own language, for the switcher */
+  languageName: "English",
+
+  ground: {
+    label: "Festival ground",
+    hint: "Use the arrow keys to move between items, Enter to open one.",
+    /** Screen-reader descriptions of what opening each kind of item does */
+    focusHints: {
+      flier: "Event flier. Opens full size; flip it to read the back.",
+      phone: "Opens the phone: booking inquiries, bio, photo gallery, contact and links.",
+      trash: "Opens a close-up.",
+    },
+    cleanUp: "Clean up",
+    cleanUpTitle: "Pick up every piece of trash on the ground",
+    usageStats: "Share anonymous usage stats",
+    show3d: "Show the ground in 3D",
+    reshuffle: "Reshuffle",
+    reshuffleLabel: "Reshuffle layout",
+    seed: (seed: string) => `Layout seed: ${seed}`,
+    language: "Language",
+    sound: "Sound",
+    soundOn: "Turn the festival sound on",
+    soundOff: "Mute the festival sound",
+    tilt: "Tilt",
+    tiltTitle: "Move the ground by tilting your phone",
+  },
+
+  /** Alt text by scene item id; items not listed keep the manifest's (English) text */
+  items: {} as Record<string, string>,
+
+  overlay: {
+    close: "Close",
+    closeOverlay: "Close overlay",
+    phone: "Phone",
+  },
+
+  flier: {
+    eventAlt: (title: string, venue: string, date: string) => `Flier: ${title}, ${venue}, ${date}`,
+    dialog: (alt: string, side: "front" | "back") => `${alt}, ${side} side`,
+    front: (alt: string) => `${alt} (front)`,
+    back: (alt: string) => `${alt} (back)`,
+    flip: "Flip",
+    flipToBack: "Flip to the back",
+    flipToFront: "Flip to the front",
+    pastShow: "(past show)",
+    tickets: "Tickets",
+    addToCalendar: "Add to calendar",
+  },
+
+  story: {
+    photo: (title: string) => `Photo from the shoot: ${title}`,
+    seeAlbum: "See the album",
+  },
+
+  cleanup: {
+    pickedUp: "picked up",
+    reward: "Reward",
+    resetGround: "Reset ground",
+    stop: "Stop the clean-up game",
+    clean: "The ground is clean",
+    cleanHeading: "The ground is clean!",
+    allPickedUp: (count: number) => `All ${count} pieces picked up.`,
+    pressKit: "Thanks for the help! Take the press kit with you:",
+  },
+
+  consent: {
+    label: "Usage stats",
+    question: "Share anonymous usage stats?",
+    detail: "Which items get opened, for how long, and which links get clicked. No cookies and nothing that identifies you.",
+    deny: "No thanks",
+    allow: "Allow",
+  },
+
+  phone: {
+    swipeToUnlock: "Swipe up to unlock",
+    lock: "Lock phone",
+    back: "Back to home screen",
+    apps: "Apps",
+    appNames: { book: "Book", bio: "Bio", gallery: "Gallery", contact: "Contact", links: "Links" },
+    notifications: "Notifications",
+    open: "Open",
+    dismiss: "Dismiss",
+    /** Android-style short relative time */
+    ago: {
+      now: "now",
+      minutes: (n: number) => `${n}m`,
+      hours: (n: number) => `${n}h`,
+      days: (n: number) => `${n}d`,
+    },
+    bookInquiry: "Send a booking inquiry",
+  },
+
+  pressKit: {
+    download: "Download press kit",
+    packing: "Packing…",
+    pdfLabel: "Download the one-sheet PDF",
+    contents: (photos: boolean) => `Flier, ${photos ? "photos, " : ""}bio, links and a printable one-sheet.`,
+    failed: "The press kit couldn't be put together here. Ask for it at",
+    failedRetry: "The press kit couldn't be put together here. Please try again in a moment.",
+    /** Subject of the fallback email */
+    request: "Press kit request",
+  },
+
+  gallery: {
+    photos: (n: number) => (n === 1 ? "1 photo" : `${n} photos`),
+    albums: "Albums",
+    empty: "No albums yet.",
+    open: (n: number, alt: string) => `Open photo ${n}: ${alt}`,
+    position: (album: string, n: number, count: number) => `${album}, photo ${n} of ${count}`,
+    close: "Close photo",
+    previous: "Previous photo",
+    next: "Next photo",
+  },
+
+  booking: {
+    intro: "Tell me about your event and I'll get back to you with availability and rates.",
+    honeypot: "Leave this empty",
+    fields: {
+      date: "Event date",
+      eventType: "Event type",
+      location: "Location",
+      budget: "Budget",
+      message: "Message",
+      name: "Your name",
+      email: "Email",
+      phone: "Phone",
+    },
+    choose: "Choose…",
+    locationPlaceholder: "Venue, city",
+    messagePlaceholder: "Set times, what you need covered, deliverables…",
+    optional: "Optional",
+    /** Display labels; the English values are what gets sent */
+    eventTypes: {
+      "Festival": "Festival",
+      "Concert / club night": "Concert / club night",
+      "Tour": "Tour",
+      "Private event": "Private event",
+      "Brand activation": "Brand activation",
+      "Other": "Other",
+    },
+    budgets: {
+      "Under $500": "Under $500",
+      "$500–$1,500": "$500–$1,500",
+      "$1,500–$5,000": "$1,500–$5,000",
+      "$5,000+": "$5,000+",
+      "Not sure yet": "Not sure yet",
+    },
+    errors: {
+      date: "Pick the event date.",
+      datePassed: "That date has already passed.",
+      eventType: "Choose an event type.",
+      location: "Where is it happening?",
+      budget: "Choose a budget range.",
+      messageShort: (min: number) => `Tell me a bit more (at least ${min} characters).`,
+      messageLong: (max: number) => `Please keep it under ${max} characters.`,
+      name: "Your name, please.",
+      email: "Enter an email address I can reply to.",
+      phone: "That doesn't look like a phone number.",
+    },
+    sent: "Inquiry sent",
+    /** `name` is the first word of what they typed, or empty */
+    thanks: (name: string, email: string) => `Thanks, ${name || "friend"}! Expect a reply at ${email}.`,
+    sendAnother: "Send another",
+    failed: "The inquiry couldn't be sent from here. Your details are already filled into an email instead:",
+    emailTo: (to: string) => `Email ${to}`,
+    failedRetry: "The inquiry couldn't be sent from here. Please try again in a moment.",
+    send: "Send inquiry",
+    sending: "Sending…",
+    preferEmail: "Prefer email?",
+    openMail: "Open it in your mail app",
+  },
+};
+
+export type Messages = typeof en;
@@ -0,0 +1,182 @@
+import type { Messages } from "./en";
+
+/** ------------ UI strings: Spanish ------------ */
+
+export const es: Messages = {
+  languageName: "Español",
+
+  ground: {
+    label: "Terreno del festival",
+    hint: "Usa las flechas para moverte entre los objetos y Enter para abrir uno.",
+    focusHints: {
+      flier: "Cartel del concierto. Se abre a tamaño completo; dale la vuelta para leer el reverso.",
+      phone: "Abre el teléfono: contrataciones, biografía, galería de fotos, contacto y enlaces.",
+      trash: "Abre un primer plano.",
+    },
+    cleanUp: "Recoger",
+    cleanUpTitle: "Recoge toda la basura del suelo",
+    usageStats: "Compartir estadísticas de uso anónimas",
+    show3d: "Ver el terreno en 3D",
+    reshuffle: "Mezclar",
+    reshuffleLabel: "Mezclar la disposición",
+    seed: (seed) => `Semilla de la disposición: ${seed}`,
+    language: "Idioma",
+    sound: "Sonido",
+    soundOn: "Activar el sonido del festival",
+    soundOff: "Silenciar el sonido del festival",
+    tilt: "Inclinar",
+    tiltTitle: "Mueve el terreno inclinando el teléfono",
+  },
+
+  items: {
+    "flier": "Cartel del concierto",
+    "phone": "Teléfono tirado en el suelo",
+    "trash-dino": "Pulsera de cuentas con dinosaurio",
+    "trash-band": "Pulsera del festival",
+    "trash-cup": "Vaso de plástico aplastado",
+    "trash-bottle": "Botella de agua vacía",
+    "trash-flipflop": "Chancla perdida",
+    "trash-glowstick": "Barra luminosa",
+    "trash-keys": "Llavero perdido",
+    "trash-lighter": "Mechero",
+    "trash-vape": "Vapeador desechable",
+  },
+
+  overlay: {
+    close: "Cerrar",
+    closeOverlay: "Cerrar la vista",
+    phone: "Teléfono",
+  },
+
+  flier: {
+    eventAlt: (title, venue, date) => `Cartel: ${title}, ${venue}, ${date}`,
+    dialog: (alt, side) => `${alt}, ${side === "front" ? "anverso" : "reverso"}`,
+    front: (alt) => `${alt} (anverso)`,
+    back: (alt) => `${alt} (reverso)`,
+    flip: "Girar",
+    flipToBack: "Ver el reverso",
+    flipToFront: "Ver el anverso",
+    pastShow: "(concierto pasado)",
+    tickets: "Entradas",
+    addToCalendar: "Añadir al calendario",
+  },
+
+  story: {
+    photo: (title) => `Foto de la sesión: ${title}`,
+    seeAlbum: "Ver el álbum",
+  },
+
+  cleanup: {
+    pickedUp: "recogidos",
+    reward: "Premio",
+    resetGround: "Restablecer el terreno",
+    stop: "Dejar el juego de limpieza",
+    clean: "El terreno está limpio",
+    cleanHeading: "¡El terreno está limpio!",
+    allPickedUp: (count) => `Has recogido las ${count} piezas.`,
+    pressKit: "¡Gracias por ayudar! Llévate el dosier de prensa:",
+  },
+
+  consent: {
+    label: "Estadísticas de uso",
+    question: "¿Compartir estadísticas de uso anónimas?",
+    detail: "Qué objetos se abren, durante cuánto tiempo y en qué enlaces se hace clic. Sin cookies y sin nada que te identifique.",
+    deny: "No, gracias",
+    allow: "Permitir",
+  },
+
+  phone: {
+    swipeToUnlock: "Desliza hacia arriba para desbloquear",
+    lock: "Bloquear el teléfono",
+    back: "Volver a la pantalla de inicio",
+    apps: "Aplicaciones",
+    appNames: { book: "Contratar", bio: "Bio", gallery: "Galería", contact: "Contacto", links: "Enlaces" },
+    notifications: "Notificaciones",
+    open: "Abrir",
+    dismiss: "Descartar",
+    ago: {
+      now: "ahora",
+      minutes: (n) => `${n} min`,
+      hours: (n) => `${n} h`,
+      days: (n) => `${n} d`,
+    },
+    bookInquiry: "Enviar una solicitud de contratación",
+  },
+
+  pressKit: {
+    download: "Descargar el dosier de prensa",
+    packing: "Preparando…",
+    pdfLabel: "Descargar la ficha en PDF",
+    contents: (photos) => `Cartel, ${photos ? "fotos, " : ""}biografía, enlaces y una ficha para imprimir.`,
+    failed: "No se pudo preparar el dosier de prensa aquí. Pídelo en",
+    failedRetry: "No se pudo preparar el dosier de prensa aquí. Inténtalo de nuevo en un momento.",
+    request: "Solicitud de dosier de prensa",
+  },
+
+  gallery: {
+    photos: (n) => (n === 1 ? "1 foto" : `${n} fotos`),
+    albums: "Álbumes",
+    empty: "Todavía no hay álbumes.",
+    open: (n, alt) => `Abrir la foto ${n}: ${alt}`,
+    position: (album, n, count) => `${album}, foto ${n} de ${count}`,
+    close: "Cerrar la foto",
+    previous: "Foto anterior",
+    next: "Foto siguiente",
+  },
+
+  booking: {
+    intro: "Cuéntame sobre tu evento y te responderé con mi disponibilidad y tarifas.",
+    honeypot: "Deja esto vacío",
+    fields: {
+      date: "Fecha del evento",
+      eventType: "Tipo de evento",
+      location: "Lugar",
+      budget: "Presupuesto",
+      message: "Mensaje",
+      name: "Tu nombre",
+      email: "Correo electrónico",
+      phone: "Teléfono",
+    },
+    choose: "Elige…",
+    locationPlaceholder: "Sala, ciudad",
+    messagePlaceholder: "Horarios, qué hay que cubrir, entregables…",
+    optional: "Opcional",
+    eventTypes: {
+      "Festival": "Festival",
+      "Concert / club night": "Concierto / noche de club",
+      "Tour": "Gira",
+      "Private event": "Evento privado",
+      "Brand activation": "Acción de marca",
+      "Other": "Otro",
+    },
+    budgets: {
+      "Under $500": "Menos de 500 US$",
+      "$500–$1,500": "500–1500 US$",
+      "$1,500–$5,000": "1500–5000 US$",
+      "$5,000+": "Más de 5000 US$",
+      "Not sure yet": "Aún no lo sé",
+    },
+    errors: {
+      date: "Elige la fecha del evento.",
+      datePassed: "Esa fecha ya ha pasado.",
+      eventType: "Elige un tipo de evento.",
+      location: "¿Dónde será?",
+      budget: "Elige un rango de presupuesto.",
+      messageShort: (min) => `Cuéntame un poco más (al menos ${min} caracteres).`,
+      messageLong: (max) => `Escribe menos de ${max} caracteres, por favor.`,
+      name: "Tu nombre, por favor.",
+      email: "Escribe un correo al que pueda responder.",
+      phone: "Eso no parece un número de teléfono.",
+    },
+    sent: "Solicitud enviada",
+    thanks: (name, email) => `¡Gracias${name ? `, ${name}` : ""}! Te responderé a ${email}.`,
+    sendAnother: "Enviar otra",
+    failed: "No se pudo enviar la solicitud desde aquí. Tus datos ya están en un correo listo para enviar:",
+    emailTo: (to) => `Escribir a ${to}`,
+    failedRetry: "No se pudo enviar la solicitud desde aquí. Inténtalo de nuevo en un momento.",
+    send: "Enviar solicitud",
+    sending: "Enviando…",
+    preferEmail: "¿Prefieres el correo?",
+    openMail: "Ábrelo en tu aplicación de correo",
+  },
+};
@@ -0,0 +1,154 @@
+/**
+ * ------------ Minimal PDF writer (one-sheets: Helvetica text, JPEG images, rectangles, links) ------------
+ * Coordinates are in points from the top-left of the page; the writer flips them for PDF.
+ */
+
+export type PdfImage = { jpeg: Uint8Array; width: number; height: number };
+
+export type PdfOp =
+  | { kind: "text"; x: number; y: number; size: number; text: string; bold?: boolean; color?: Rgb }
+  | { kind: "image"; x: number; y: number; w: number; h: number; image: PdfImage }
+  | { kind: "rect"; x: number; y: number; w: number; h: number; color: Rgb }
+  | { kind: "link"; x: number; y: number; w: number; h: number; url: string };
+
+/** 0–1 per channel */
+export type Rgb = readonly [number, number, number];
+
+export const LETTER = { w: 612, h: 792 };
+
+/** Helvetica advance widths (1/1000 em) for ASCII 32–126, from the standard AFM. */
+const HELVETICA = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const BOLD_FACTOR = 1.06; // Helvetica-Bold runs about this much wider
+
+/** Unicode → WinAnsiEncoding for the punctuation the copy actually uses; Latin-1 maps to itself. */
+const WIN_ANSI: Record<string, [number, number]> = {
+  "—": [0x97, 1000], "–": [0x96, 556], "‘": [0x91, 222], "’": [0x92, 222],
+  "“": [0x93, 333], "”": [0x94, 333], "•": [0x95, 350], "…": [0x85, 1000], "€": [0x80, 556],
+};
+
+function encodeChar(ch: string): [number, number] {
+  const code = ch.charCodeAt(0);
+  if (code >= 32 && code <= 126) return [code, HELVETICA[code - 32]];
+  if (WIN_ANSI[ch]) return WIN_ANSI[ch];
+  if (code >= 0xa0 && code <= 0xff) return [code, 556];
+  return [0x3f, 556]; // "?"
+}
+
+export function textWidth(text: string, size: number, bold = false) {
+  let units = 0;
+  for (const ch of Array.from(text)) units += encodeChar(ch)[1];
+  return (units / 1000) * size * (bold ? BOLD_FACTOR : 1);
+}
+
+/** Greedy word wrap to `maxWidth` points. */
+export function wrapText(text: string, size: number, maxWidth: number, bold = false): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const next = line ? `${line} ${word}` : word;
+    if (line && textWidth(next, size, bold) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = next;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+const hex = (text: string) =>
+  Array.from(text).map((ch) => encodeChar(ch)[0].toString(16).padStart(2, "0")).join("");
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+const rgb = (c: Rgb) => c.map(num).join(" ");
+/** PDF literal string, for ASCII metadata and URLs */
+const literal = (s: string) => `(${s.replace(/[^\x20-\x7e]/g, "?").replace(/[\\()]/g, (c) => `\\${c}`)})`;
+
+/** A complete PDF with one page per entry of `pages`. */
+export function pdfDocument(pages: PdfOp[][], opts: { title: string; size?: { w: number; h: number } }): Blob {
+  const { w: W, h: H } = opts.size ?? LETTER;
+  const ascii = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === "string" ? ascii.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const object = (id: number, body: string | Uint8Array[]) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+    if (typeof body === "string") write(body);
+    else body.forEach(write);
+    write("\nendobj\n");
+  };
+  const stream = (dict: string, data: Uint8Array) =>
+    [ascii.encode(`<< ${dict} /Length ${data.length} >>\nstream\n`), data, ascii.encode("\nendstream")];
+
+  // 1 catalog, 2 page tree, 3–4 fonts, 5 info; images and pages follow
+  const images: PdfImage[] = [];
+  pages.forEach((ops) => ops.forEach((op) => {
+    if (op.kind === "image" && !images.includes(op.image)) images.push(op.image);
+  }));
+  const imageId = (img: PdfImage) => 6 + images.indexOf(img);
+  const firstPage = 6 + images.length;
+  const pageIds = pages.map((_, i) => firstPage + i * 2);
+
+  write("%PDF-1.4\n%\xff\xff\xff\xff\n");
+  object(1, "<< /Type /Catalog /Pages 2 0 R >>");
+  object(2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`);
+  object(3, "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+  object(4, "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+  object(5, `<< /Title ${literal(opts.title)} /Producer (tsgphotog press kit) >>`);
+  images.forEach((img) => object(imageId(img), stream(
+    `/Type /XObject /Subtype /Image /Width ${img.width} /Height ${img.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode`,
+    img.jpeg
+  )));
+
+  pages.forEach((ops, i) => {
+    const content: string[] = [];
+    const links: string[] = [];
+    for (const op of ops) {
+      switch (op.kind) {
+        case "rect":
+          content.push(`${rgb(op.color)} rg ${num(op.x)} ${num(H - op.y - op.h)} ${num(op.w)} ${num(op.h)} re f`);
+          break;
+        case "image":
+          content.push(`q ${num(op.w)} 0 0 ${num(op.h)} ${num(op.x)} ${num(H - op.y - op.h)} cm /Im${images.indexOf(op.image)} Do Q`);
+          break;
+        case "text":
+          // y is the baseline
+          content.push(`BT ${rgb(op.color ?? [0, 0, 0])} rg /${op.bold ? "F2" : "F1"} ${num(op.size)} Tf ${num(op.x)} ${num(H - op.y)} Td <${hex(op.text)}> Tj ET`);
+          break;
+        case "link":
+          links.push(`<< /Type /Annot /Subtype /Link /Border [0 0 0] /Rect [${num(op.x)} ${num(H - op.y - op.h)} ${num(op.x + op.w)} ${num(H - op.y)}] /A << /S /URI /URI ${literal(op.url)} >> >>`);
+          break;
+      }
+    }
+    const xobjects = images.map((img, j) => `/Im${j} ${imageId(img)} 0 R`).join(" ");
+    object(pageIds[i], [
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${W} ${H}] /Contents ${pageIds[i] + 1} 0 R`,
+      ` /Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xobjects} >> >>`,
+      links.length ? ` /Annots [${links.join(" ")}]` : "",
+      " >>",
+    ].map((s) => ascii.encode(s)));
+    object(pageIds[i] + 1, stream("", ascii.encode(content.join("\n"))));
+  });
+
+  const xref = length;
+  const count = firstPage + pages.length * 2;
+  write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+  for (let id = 1; id < count; id++) write(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`);
+  write(`trailer\n<< /Size ${count} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  return new Blob(chunks as BlobPart[], { type: "application/pdf" });
+}
@@ -0,0 +1,236 @@
+import { PROFILE } from "./profile";
+import { ALBUMS, photoCredit } from "./gallery";
+import { SCENE } from "./scene-manifest";
+import { EVENTS } from "./event-list";
+import { formatEventDate, pickEventFliers, withEventFliers, type ShowEvent } from "./events";
+import { zipFiles, type ZipEntry } from "./zip";
+import { LETTER, pdfDocument, textWidth, wrapText, type PdfImage, type PdfOp, type Rgb } from "./pdf";
+
+/** ------------ Press kit: ZIP of assets + printable one-sheet, built in the browser ------------ */
+
+export type PressKit = {
+  flier: { front: string; back: string };
+  /** High-res photos to include, with their credit line */
+  photos: { src: string; alt: string; credit?: string }[];
+  links: { label: string; href: string }[];
+  /** The next show, if there is one */
+  event?: ShowEvent;
+};
+
+/**
+ * Only what the client supplied goes in: gallery photos they marked `press: true`, nothing
+ * picked from the site's own artwork. Empty until the gallery has real shoots in it.
+ */
+export const pressPhotos = (): PressKit["photos"] =>
+  ALBUMS.flatMap((a) => a.photos.filter((p) => p.press).map((p) => ({ src: p.src, alt: p.alt, credit: photoCredit(a, p) })));
+
+/** The kit as the site stands right now: the current flier, the gallery's press picks and the next show. */
+export function currentPressKit(links: PressKit["links"], now = Date.now()): PressKit {
+  // The first flier is the one in the flier slot; past shows' fliers come after it
+  const flier = withEventFliers(SCENE, EVENTS, now).find((i) => i.focus.type === "flier");
+  return {
+    flier: {
+      front: flier?.image ?? "",
+      back: flier?.focus.type === "flier" ? flier.focus.backImage : "",
+    },
+    photos: pressPhotos(),
+    links,
+    event: pickEventFliers(EVENTS, now).upcoming,
+  };
+}
+
+export const pressKitFilename = () => `${PROFILE.handle}-press-kit.zip`;
+
+const fileName = (src: string) => src.split("/").pop() ?? src;
+const extension = (src: string) => fileName(src).split(".").pop() ?? "";
+
+async function fetchBytes(src: string) {
+  const res = await fetch(src);
+  if (!res.ok) throw new Error(`Couldn't load ${src} (HTTP ${res.status})`);
+  return new Uint8Array(await res.arrayBuffer());
+}
+
+/**
+ * Re-encodes any image the browser can decode as a JPEG a PDF can embed, no larger than
+ * `maxPx` on its long side. With `aspect` (w / h) it's center-cropped to that shape.
+ * Transparent areas come out white, like paper.
+ */
+async function jpegFor(src: string, maxPx: number, aspect?: number): Promise<PdfImage> {
+  const img = new Image();
+  img.src = src;
+  await img.decode();
+  let sw = img.naturalWidth, sh = img.naturalHeight, sx = 0, sy = 0;
+  if (aspect) {
+    if (sw / sh > aspect) { sx = (sw - sh * aspect) / 2; sw = sh * aspect; }
+    else { sy = (sh - sw / aspect) / 2; sh = sw / aspect; }
+  }
+  const k = Math.min(1, maxPx / Math.max(sw, sh));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(sw * k);
+  canvas.height = Math.round(sh * k);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas isn't available");
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", 0.85));
+  if (!blob) throw new Error(`Couldn't convert ${src}`);
+  return { jpeg: new Uint8Array(await blob.arrayBuffer()), width: canvas.width, height: canvas.height };
+}
+
+/** ------------ Text files ------------ */
+
+export function bioText(kit: PressKit): string {
+  const lines = [
+    PROFILE.name,
+    PROFILE.role,
+    "",
+    PROFILE.tagline,
+    "",
+    ...PROFILE.bio.flatMap((p) => [p, ""]),
+    ...(PROFILE.email ? [`Booking: ${PROFILE.email}`] : []),
+    `Website: ${PROFILE.website}`,
+  ];
+  if (kit.event) {
+    lines.push("", "Next show:", `${kit.event.title}, ${formatEventDate(kit.event, "en-US")}`, `${kit.event.venue}, ${kit.event.city}`);
+    if (kit.event.ticketUrl) lines.push(`Tickets: ${kit.event.ticketUrl}`);
+  }
+  if (kit.photos.length) {
+    lines.push("", "Photos:");
+    kit.photos.forEach((p, i) => lines.push(`${photoFile(p.src, i)}: ${p.alt}${p.credit ? ` (${p.credit})` : ""}`));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function linksText(kit: PressKit): string {
+  const lines = [
+    `${PROFILE.name} (${PROFILE.handle})`,
+    "",
+    ...(PROFILE.email ? [`Email: ${PROFILE.email}`] : []),
+    ...kit.links.map((l) => `${l.label}: ${l.href}`),
+  ];
+  return lines.join("\r\n") + "\r\n";
+}
+
+const photoFile = (src: string, i: number) => `photos/${String(i + 1).padStart(2, "0")}-${fileName(src)}`;
+
+/** ------------ One-sheet ------------ */
+
+const INK: Rgb = [0.1, 0.1, 0.11];
+const MUTED: Rgb = [0.42, 0.42, 0.45];
+const ACCENT: Rgb = [0.88, 0.11, 0.28];
+const MARGIN = 40;
+const GAP = 12;
+
+/** A printable US Letter page: header, flier, bio, next show, booking links and a photo strip. */
+export async function oneSheetPdf(kit: PressKit): Promise<Blob> {
+  const { w: W, h: H } = LETTER;
+  const ops: PdfOp[] = [];
+  const text = (x: number, y: number, size: number, s: string, opts: { bold?: boolean; color?: Rgb } = {}) =>
+    ops.push({ kind: "text", x, y, size, text: s, bold: opts.bold, color: opts.color ?? INK });
+
+  // Header band
+  ops.push({ kind: "rect", x: 0, y: 0, w: W, h: 110, color: INK });
+  ops.push({ kind: "rect", x: 0, y: 110, w: W, h: 4, color: ACCENT });
+  text(MARGIN, 60, 30, PROFILE.name, { bold: true, color: [1, 1, 1] });
+  text(MARGIN, 84, 13, PROFILE.role, { color: [0.8, 0.8, 0.82] });
+  const site = PROFILE.website.replace(/^https?:\/\/(www\.)?/, "");
+  const siteW = textWidth(site, 11);
+  text(W - MARGIN - siteW, 60, 11, site, { color: [1, 1, 1] });
+  ops.push({ kind: "link", x: W - MARGIN - siteW, y: 48, w: siteW, h: 16, url: PROFILE.website });
+
+  // Left: the flier
+  const top = 140;
+  const flierW = 220;
+  let leftBottom = top;
+  if (kit.flier.front) {
+    const flier = await jpegFor(kit.flier.front, 1200);
+    const flierH = Math.min(320, (flierW * flier.height) / flier.width);
+    ops.push({ kind: "image", x: MARGIN, y: top, w: (flierH * flier.width) / flier.height, h: flierH, image: flier });
+    leftBottom = top + flierH;
+  }
+
+  // Right: bio, next show, contact
+  const rx = MARGIN + flierW + 24;
+  const rw = W - MARGIN - rx;
+  let y = top + 12;
+  const heading = (s: string) => {
+    text(rx, y, 12, s.toUpperCase(), { bold: true, color: ACCENT });
+    y += 18;
+  };
+  const para = (s: string, size = 10.5, color = INK) => {
+    for (const line of wrapText(s, size, rw)) {
+      text(rx, y, size, line, { color });
+      y += size * 1.45;
+    }
+  };
+  const link = (label: string, url: string) => {
+    // Long URLs shrink to fit the column rather than wrap
+    const size = Math.min(10.5, (10.5 * rw) / textWidth(label, 10.5));
+    text(rx, y, size, label, { color: ACCENT });
+    ops.push({ kind: "link", x: rx, y: y - size, w: textWidth(label, size), h: size + 4, url });
+    y += 15;
+  };
+
+  heading("About");
+  para(PROFILE.tagline, 11);
+  y += 6;
+  PROFILE.bio.forEach((p) => { para(p); y += 6; });
+
+  if (kit.event) {
+    y += 6;
+    heading("Next show");
+    para(kit.event.title, 11);
+    para(`${formatEventDate(kit.event, "en-US")} · ${kit.event.venue}, ${kit.event.city}`, 10, MUTED);
+    if (kit.event.ticketUrl) link("Tickets", kit.event.ticketUrl);
+  }
+
+  y += 6;
+  heading("Booking");
+  if (PROFILE.email) link(PROFILE.email, `mailto:${PROFILE.email}`);
+  for (const l of kit.links) link(`${l.label}: ${l.href.replace(/^https?:\/\/(www\.)?/, "")}`, l.href);
+
+  // Bottom: a strip of press photos, as tall as the space left allows
+  const stripTop = Math.max(leftBottom, y) + 24;
+  const shown = kit.photos.slice(0, 3);
+  if (shown.length) {
+    const pw = (W - 2 * MARGIN - GAP * (shown.length - 1)) / shown.length;
+    const ph = Math.min(pw * (2 / 3), H - 70 - stripTop);
+    if (ph > 60) {
+      const images = await Promise.all(shown.map((p) => jpegFor(p.src, 900, pw / ph)));
+      images.forEach((image, i) => ops.push({ kind: "image", x: MARGIN + i * (pw + GAP), y: stripTop, w: pw, h: ph, image }));
+      const credits = Array.from(new Set(shown.map((p) => p.credit).filter(Boolean))).join(" · ");
+      if (credits) text(MARGIN, stripTop + ph + 14, 8, credits, { color: MUTED });
+    }
+  }
+
+  const made = new Date().toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" });
+  text(MARGIN, H - 28, 8, `Press kit generated ${made} from ${site}`, { color: MUTED });
+
+  return pdfDocument([ops], { title: `${PROFILE.name} press kit` });
+}
+
+/** ------------ The ZIP ------------ */
+
+/** Everything in one archive: one-sheet PDF, bio, links, both sides of the flier and the press photos. */
+export async function buildPressKit(kit: PressKit): Promise<Blob> {
+  const utf8 = new TextEncoder();
+  const folder = `${PROFILE.handle}-press-kit/`;
+  const [pdf, front, back, photos] = await Promise.all([
+    oneSheetPdf(kit),
+    kit.flier.front ? fetchBytes(kit.flier.front) : null,
+    kit.flier.back ? fetchBytes(kit.flier.back) : null,
+    Promise.all(kit.photos.map((p) => fetchBytes(p.src))),
+  ]);
+
+  const entries: ZipEntry[] = [
+    { name: `${folder}one-sheet.pdf`, data: new Uint8Array(await pdf.arrayBuffer()) },
+    { name: `${folder}bio.txt`, data: utf8.encode(bioText(kit)) },
+    { name: `${folder}links.txt`, data: utf8.encode(linksText(kit)) },
+  ];
+  if (front) entries.push({ name: `${folder}flier/front.${extension(kit.flier.front)}`, data: front });
+  if (back) entries.push({ name: `${folder}flier/back.${extension(kit.flier.back)}`, data: back });
+  photos.forEach((data, i) => entries.push({ name: folder + photoFile(kit.photos[i].src, i), data }));
+
+  return zipFiles(entries);
+}
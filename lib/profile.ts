@@ -0,0 +1,26 @@
+/** ------------ Artist profile (EPK copy) ------------ */
+
+export type Profile = {
+  name: string;
+  handle: string;
+  role: string;
+  /** One line under the name, from the flier */
+  tagline: string;
+  bio: readonly string[];
+  /** Booking address. Leave it unset until the client gives one; every email link hides without it. */
+  email?: string;
+  website: string;
+};
+
+// Bio and tagline are transcribed from the front of the flier (public/images/trey_flyer.webp)
+export const PROFILE: Profile = {
+  name: "Trey Green",
+  handle: "tsgphotog",
+  role: "Photographer",
+  tagline: "Photographer specializing in capturing the energy of music, performance, and culture through authentic storytelling.",
+  bio: [
+    "Trey Green grew up in the Texas Hill Country, surrounded by music and immersed in life behind the scenes at a legendary dance hall. With a family of musicians, live shows and concerts shaped him from the very beginning, drawing him toward capturing those moments long before he ever picked up a camera professionally. After studying photography, Trey built his career shooting real estate for the largest Airbnb company in the world.",
+    "Today, he channels that technical expertise and lifelong passion for music into his photography, focusing on live performances, events, and creative projects that tell authentic, powerful stories.",
+  ],
+  website: "https://www.tsgphotog.com",
+};
@@ -0,0 +1,37 @@
+/** ------------ Seeded random (deterministic layouts) ------------ */
+
+/** A source of uniform numbers in [0, 1), drop-in for Math.random. */
+export type Rng = () => number;
+
+/** Hash any seed string to a 32-bit unsigned int (FNV-1a). */
+export function hashSeed(seed: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** Small, fast PRNG: same seed → same sequence on every browser. */
+export function mulberry32(a: number): Rng {
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export const createRng = (seed: string): Rng => mulberry32(hashSeed(seed));
+
+/** Short, URL-friendly seed (e.g. "k3j9x2"). */
+export const newSeed = () => Math.floor(Math.random() * 0xffffffff).toString(36);
+
+/** Gaussian via Box–Muller */
+export const randNorm = (rng: Rng) => {
+  let u = 0, v = 0;
+  while (u === 0) u = rng();
+  while (v === 0) v = rng();
+  return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
+};
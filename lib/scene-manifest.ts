@@ -0,0 +1,46 @@
+import { defineScene } from "./scene";
+
+/** The festival ground everything lies on (also the backdrop of the link-preview image). */
+export const GROUND_BACKGROUND = "/images/festival-ground.jpg";
+
+/** Everything lying on the festival ground. Add an entry here to add an item;
+ *  widths are at the 1200px design reference. Alt text here is the English;
+ *  other languages translate it by id under `items` in lib/locales.
+ *
+ *  A piece of trash can carry the story of the shoot it came from, in the artist's words:
+ *    focus: { type: "trash", story: { title, caption, festival?, date?: "2024-08", photo?: "/images/...", albumUrl? } }
+ */
+export const SCENE = defineScene([
+  {
+    id: "flier",
+    image: "/images/trey_flyer.webp",
+    alt: "Show flier",
+    designWidth: 480,
+    rotRange: [-60, 60],
+    bounds: { marginXPct: 1.5, marginYPct: 2 },
+    preferCenter: true,
+    z: 20,
+    focus: { type: "flier", backImage: "/images/trey_flyerback.webp" },
+    sound: "paper",
+  },
+  {
+    id: "phone",
+    image: "/images/phone_idle.jpg",
+    alt: "Phone lying on the ground",
+    designWidth: 168,
+    aspect: 2, // PhoneShell is aspect-[9/18], not the idle image
+    rotRange: [-75, 75],
+    preferCenter: true,
+    z: 30,
+    focus: { type: "phone" },
+  },
+  { id: "trash-dino",      image: "/images/dinobracelet.png", alt: "Dinosaur bead bracelet", designWidth: 160, rotRange: [-25, 25], z: 15, focus: { type: "trash" } },
+  { id: "trash-band",      image: "/images/wristband.png",    alt: "Festival wristband",     designWidth: 190, rotRange: [-25, 25], z: 15, focus: { type: "trash" } },
+  { id: "trash-cup",       image: "/images/cup.png",          alt: "Crushed plastic cup",    designWidth: 238, rotRange: [-25, 25], z: 15, focus: { type: "trash" }, sound: "crinkle" },
+  { id: "trash-bottle",    image: "/images/waterbottle.png",  alt: "Empty water bottle",     designWidth: 216, rotRange: [-25, 25], z: 15, focus: { type: "trash" }, sound: "crinkle" },
+  { id: "trash-flipflop",  image: "/images/flipflop.png",     alt: "Lost flip-flop",         designWidth: 440, rotRange: [-25, 25], z: 15, focus: { type: "trash" } },
+  { id: "trash-glowstick", image: "/images/glowstick.png",    alt: "Glowstick",              designWidth: 160, rotRange: [-25, 25], z: 15, focus: { type: "trash" } },
+  { id: "trash-keys",      image: "/images/keys.png",         alt: "Set of lost keys",       designWidth: 180, rotRange: [-25, 25], z: 15, focus: { type: "trash" }, sound: "keys" },
+  { id: "trash-lighter",   image: "/images/lighter.png",      alt: "Lighter",                designWidth: 150, rotRange: [-25, 25], z: 15, focus: { type: "trash" }, sound: "lighter" },
+  { id: "trash-vape",      image: "/images/vape.png",         alt: "Disposable vape",        designWidth: 150, rotRange: [-25, 25], z: 15, focus: { type: "trash" } },
+]);
@@ -0,0 +1,156 @@
+import { isLocale, type Locale } from "./i18n";
+import { isItemSound, type ItemSound } from "./sounds";
+
+/** ------------ Scene manifest types + validation ------------ */
+
+/** What happens when an item on the ground is clicked. */
+export type SceneFocus =
+  | {
+      type: "flier";
+      backImage: string;
+      /** Set on fliers generated from the shows calendar (lib/events.ts) */
+      eventId?: string;
+      /** Artwork printed for other languages; drawn in the same box, so keep the default's proportions */
+      locales?: Partial<Record<Locale, FlierVariant>>;
+    }
+  | { type: "phone" }
+  | { type: "trash"; story?: TrashStory };
+
+export type FlierVariant = { image: string; backImage: string };
+
+/** The shoot a piece of trash came from, shown next to it in the close-up. */
+export type TrashStory = {
+  title: string;
+  caption: string;
+  festival?: string;
+  /** YYYY-MM-DD, or YYYY-MM when the day doesn't matter */
+  date?: string;
+  /** A photo from that shoot, under /images */
+  photo?: string;
+  /** Where the rest of the set lives */
+  albumUrl?: string;
+};
+
+/** "Aug 2024" or "Aug 3, 2024" for a story date. */
+export function formatStoryDate(date: string, locale?: string) {
+  const [y, m, d] = date.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d || 1)).toLocaleDateString(locale, {
+    year: "numeric", month: "short", ...(d ? { day: "numeric" } : {}), timeZone: "UTC",
+  });
+}
+
+export type SceneItem = {
+  id: string;
+  /** Image under /public (ground render; the phone uses it as its idle screen) */
+  image: string;
+  alt: string;
+  /** Width in px at the 1200px design reference; scaled per viewport */
+  designWidth: number;
+  /** Height / width of the rendered box; defaults to the image's own ratio */
+  aspect?: number;
+  /** Degrees, picked uniformly per layout */
+  rotRange: readonly [number, number];
+  bounds?: { marginXPct?: number; marginYPct?: number; visibleFrac?: number };
+  preferCenter?: boolean;
+  /** Stacking order on the ground (higher = on top) */
+  z: number;
+  focus: SceneFocus;
+  /** Played when the item is opened, if the visitor has sound on (lib/sounds.ts) */
+  sound?: ItemSound;
+};
+
+const IMAGE_RE = /^\/images\/[\w\-./]+\.(png|jpe?g|webp|avif|gif|svg)$/i;
+
+/** Returns a list of human-readable problems; empty when the manifest is valid. */
+export function validateScene(items: readonly SceneItem[]): string[] {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  let phones = 0;
+
+  items.forEach((it, i) => {
+    const at = `scene[${i}]${it?.id ? ` (${it.id})` : ""}`;
+    if (!it || typeof it !== "object") { errors.push(`${at}: not an object`); return; }
+
+    if (!/^[a-z0-9][a-z0-9-]*$/.test(it.id ?? "")) errors.push(`${at}: id must be kebab-case`);
+    else if (seen.has(it.id)) errors.push(`${at}: duplicate id`);
+    seen.add(it.id);
+
+    if (!IMAGE_RE.test(it.image ?? "")) errors.push(`${at}: image must be an /images/... path`);
+    if (!it.alt || !it.alt.trim()) errors.push(`${at}: alt text is required`);
+    if (!(Number.isFinite(it.designWidth) && it.designWidth > 0)) errors.push(`${at}: designWidth must be > 0`);
+
+    if (it.aspect != null && !(Number.isFinite(it.aspect) && it.aspect > 0)) errors.push(`${at}: aspect must be > 0`);
+
+    const [r0, r1] = it.rotRange ?? [];
+    if (!Number.isFinite(r0) || !Number.isFinite(r1) || r0 > r1) errors.push(`${at}: rotRange must be [min, max]`);
+
+    const vf = it.bounds?.visibleFrac;
+    if (vf != null && !(vf > 0 && vf <= 1)) errors.push(`${at}: bounds.visibleFrac must be in (0, 1]`);
+    for (const k of ["marginXPct", "marginYPct"] as const) {
+      const m = it.bounds?.[k];
+      if (m != null && !(m >= 0 && m < 50)) errors.push(`${at}: bounds.${k} must be in [0, 50)`);
+    }
+
+    if (!Number.isInteger(it.z)) errors.push(`${at}: z must be an integer`);
+    if (it.sound != null && !isItemSound(it.sound)) errors.push(`${at}: sound must be one of lib/sounds.ts ITEM_SOUNDS`);
+
+    switch (it.focus?.type) {
+      case "flier":
+        if (!IMAGE_RE.test(it.focus.backImage ?? "")) errors.push(`${at}: focus.backImage must be an /images/... path`);
+        for (const [locale, variant] of Object.entries(it.focus.locales ?? {})) {
+          if (!isLocale(locale)) errors.push(`${at}: focus.locales.${locale} is not a supported locale`);
+          else if (!IMAGE_RE.test(variant?.image ?? "") || !IMAGE_RE.test(variant?.backImage ?? "")) {
+            errors.push(`${at}: focus.locales.${locale} needs /images/... paths for image and backImage`);
+          }
+        }
+        break;
+      case "phone":
+        phones++;
+        break;
+      case "trash": {
+        const story = it.focus.story;
+        if (!story) break;
+        if (!story.title?.trim()) errors.push(`${at}: focus.story.title is required`);
+        if (!story.caption?.trim()) errors.push(`${at}: focus.story.caption is required`);
+        if (story.date != null && !/^\d{4}-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?$/.test(story.date)) {
+          errors.push(`${at}: focus.story.date must be YYYY-MM or YYYY-MM-DD`);
+        }
+        if (story.photo != null && !IMAGE_RE.test(story.photo)) errors.push(`${at}: focus.story.photo must be an /images/... path`);
+        if (story.albumUrl != null && !/^https:\/\//.test(story.albumUrl)) errors.push(`${at}: focus.story.albumUrl must be https`);
+        break;
+      }
+      default:
+        errors.push(`${at}: unknown focus type`);
+    }
+  });
+
+  if (phones > 1) errors.push("scene: at most one phone item is supported");
+  return errors;
+}
+
+/** Validates at module load, so a bad entry fails `next build` during prerender. */
+export function defineScene(items: SceneItem[]): readonly SceneItem[] {
+  const errors = validateScene(items);
+  if (errors.length) throw new Error(`Invalid scene manifest:\n  - ${errors.join("\n  - ")}`);
+  return items;
+}
+
+/**
+ * The scene as drawn in `locale`: fliers swap in their artwork for it, and `alt` supplies
+ * translated alt text (undefined keeps the manifest's). Ids, sizes and z stay put, so the
+ * layout doesn't move when the language changes.
+ */
+export function localizeScene(
+  items: readonly SceneItem[],
+  locale: Locale,
+  alt: (item: SceneItem) => string | undefined
+): readonly SceneItem[] {
+  return items.map((item) => {
+    const text = alt(item) ?? item.alt;
+    const variant = item.focus.type === "flier" ? item.focus.locales?.[locale] : undefined;
+    if (variant && item.focus.type === "flier") {
+      return { ...item, alt: text, image: variant.image, focus: { ...item.focus, backImage: variant.backImage } };
+    }
+    return text === item.alt ? item : { ...item, alt: text };
+  });
+}
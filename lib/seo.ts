@@ -0,0 +1,50 @@
+import { PROFILE } from "./profile";
+import { LINKS } from "./link-list";
+import { EVENTS } from "./event-list";
+import { eventEnd, eventStart, type ShowEvent } from "./events";
+
+/** ------------ Search and link-preview metadata (rendered at build time) ------------ */
+
+export const SITE_URL = PROFILE.website;
+export const SITE_TITLE = `${PROFILE.name} - EPK`;
+export const SITE_DESCRIPTION = PROFILE.tagline;
+
+const absolute = (path: string) => new URL(path, SITE_URL).toString();
+
+export function personJsonLd() {
+  return {
+    "@context": "https://schema.org",
+    "@type": "Person",
+    name: PROFILE.name,
+    alternateName: PROFILE.handle,
+    jobTitle: PROFILE.role,
+    description: PROFILE.bio.join(" "),
+    url: SITE_URL,
+    ...(PROFILE.email && { email: `mailto:${PROFILE.email}` }),
+    sameAs: LINKS.filter((l) => l.platform !== "website").map((l) => l.href),
+  };
+}
+
+export function eventJsonLd(e: ShowEvent) {
+  return {
+    "@context": "https://schema.org",
+    "@type": "Event",
+    name: e.title,
+    startDate: e.start,
+    endDate: new Date(eventEnd(e)).toISOString(),
+    eventStatus: "https://schema.org/EventScheduled",
+    eventAttendanceMode: "https://schema.org/OfflineEventAttendanceMode",
+    location: { "@type": "Place", name: e.venue, address: e.city },
+    image: [absolute(e.flier.front)],
+    ...(e.ticketUrl && { offers: { "@type": "Offer", url: e.ticketUrl } }),
+  };
+}
+
+/**
+ * The artist plus every show that hasn't ended as of `now`. A static export only knows
+ * the build time, so a rebuild drops shows that are over.
+ */
+export function structuredData(now: number) {
+  const upcoming = EVENTS.filter((e) => eventEnd(e) > now).sort((a, b) => eventStart(a) - eventStart(b));
+  return [personJsonLd(), ...upcoming.map(eventJsonLd)];
+}
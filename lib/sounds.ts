@@ -0,0 +1,139 @@
+/** ------------ Festival soundscape: synthesized ambience and item sounds (Web Audio) ------------ */
+
+/**
+ * Everything is built from oscillators and filtered noise, so there are no audio files to
+ * download or license. Each sound takes the node to play into (a panner, in practice) and
+ * the context time to start at.
+ */
+
+export const ITEM_SOUNDS = ["lighter", "keys", "crinkle", "paper"] as const;
+export type ItemSound = (typeof ITEM_SOUNDS)[number];
+
+export const isItemSound = (s: string): s is ItemSound => (ITEM_SOUNDS as readonly string[]).includes(s);
+
+const NOISE_SECONDS = 2;
+const noiseBuffers = new WeakMap<BaseAudioContext, AudioBuffer>();
+
+/** Two seconds of white noise per context, shared by every sound. */
+function noise(ctx: BaseAudioContext): AudioBuffer {
+  let buf = noiseBuffers.get(ctx);
+  if (!buf) {
+    buf = ctx.createBuffer(1, ctx.sampleRate * NOISE_SECONDS, ctx.sampleRate);
+    const data = buf.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    noiseBuffers.set(ctx, buf);
+  }
+  return buf;
+}
+
+const rand = (min: number, max: number) => min + Math.random() * (max - min);
+
+/** A noise burst through one filter, shaped by a quick attack and exponential decay. */
+function burst(
+  ctx: BaseAudioContext,
+  out: AudioNode,
+  at: number,
+  { type, freq, q = 1, peak, attack = 0.002, decay }: { type: BiquadFilterType; freq: number; q?: number; peak: number; attack?: number; decay: number }
+) {
+  const src = ctx.createBufferSource();
+  src.buffer = noise(ctx);
+  const filter = ctx.createBiquadFilter();
+  filter.type = type;
+  filter.frequency.value = freq;
+  filter.Q.value = q;
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0.0001, at);
+  gain.gain.exponentialRampToValueAtTime(peak, at + attack);
+  gain.gain.exponentialRampToValueAtTime(0.0001, at + attack + decay);
+  src.connect(filter).connect(gain).connect(out);
+  // Random offset so repeated bursts don't sound identical
+  src.start(at, rand(0, NOISE_SECONDS - 0.5));
+  src.stop(at + attack + decay + 0.05);
+}
+
+/** A struck piece of metal: a few inharmonic partials ringing down together. */
+function ping(ctx: BaseAudioContext, out: AudioNode, at: number, freq: number, peak: number, decay: number) {
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0.0001, at);
+  gain.gain.exponentialRampToValueAtTime(peak, at + 0.002);
+  gain.gain.exponentialRampToValueAtTime(0.0001, at + decay);
+  gain.connect(out);
+  for (const ratio of [1, 1.47, 2.09]) {
+    const osc = ctx.createOscillator();
+    osc.frequency.value = freq * ratio;
+    osc.connect(gain);
+    osc.start(at);
+    osc.stop(at + decay + 0.05);
+  }
+}
+
+const PLAYERS: Record<ItemSound, (ctx: BaseAudioContext, out: AudioNode, at: number) => void> = {
+  /** Flint wheel scrape, spark click, then a short breath of flame */
+  lighter: (ctx, out, at) => {
+    burst(ctx, out, at, { type: "bandpass", freq: 3500, q: 2, peak: 0.5, decay: 0.06 });
+    burst(ctx, out, at + 0.07, { type: "highpass", freq: 5000, peak: 0.6, decay: 0.015 });
+    burst(ctx, out, at + 0.09, { type: "bandpass", freq: 600, q: 0.7, peak: 0.25, attack: 0.05, decay: 0.45 });
+  },
+  /** A handful of keys knocking into each other */
+  keys: (ctx, out, at) => {
+    for (let i = 0; i < 7; i++) ping(ctx, out, at + rand(0, 0.35), rand(2400, 5200), rand(0.08, 0.16), rand(0.15, 0.4));
+  },
+  /** Thin plastic being squeezed: lots of tiny crackles */
+  crinkle: (ctx, out, at) => {
+    for (let i = 0; i < 28; i++) {
+      burst(ctx, out, at + rand(0, 0.5), { type: "bandpass", freq: rand(1800, 6000), q: 3, peak: rand(0.2, 0.5), decay: rand(0.005, 0.02) });
+    }
+  },
+  /** Paper lifted off the ground */
+  paper: (ctx, out, at) => {
+    burst(ctx, out, at, { type: "bandpass", freq: 1400, q: 0.6, peak: 0.3, attack: 0.08, decay: 0.25 });
+    for (let i = 0; i < 6; i++) burst(ctx, out, at + rand(0.02, 0.25), { type: "highpass", freq: 3000, peak: 0.15, decay: 0.02 });
+  },
+};
+
+/** One item sound, panned -1 (left edge of the viewport) … 1 (right edge). */
+export function playItemSound(ctx: BaseAudioContext, out: AudioNode, sound: ItemSound, pan: number) {
+  const panner = ctx.createStereoPanner();
+  panner.pan.value = Math.max(-1, Math.min(1, pan));
+  panner.connect(out);
+  PLAYERS[sound](ctx, panner, ctx.currentTime);
+}
+
+/** A slow wobble of `param` around its current value. */
+function drift(ctx: BaseAudioContext, param: AudioParam, rate: number, depth: number) {
+  const lfo = ctx.createOscillator();
+  lfo.frequency.value = rate;
+  const amount = ctx.createGain();
+  amount.gain.value = depth;
+  lfo.connect(amount).connect(param);
+  lfo.start();
+  return lfo;
+}
+
+/**
+ * The ground after the show, looping: a crowd murmur that swells and settles, wind, and the
+ * low rumble of a stage still running somewhere. Returns a stop function.
+ */
+export function startAmbience(ctx: BaseAudioContext, out: AudioNode): () => void {
+  const nodes: AudioScheduledSourceNode[] = [];
+  const layer = (filterType: BiquadFilterType, freq: number, q: number, level: number, swellRate: number) => {
+    const src = ctx.createBufferSource();
+    src.buffer = noise(ctx);
+    src.loop = true;
+    const filter = ctx.createBiquadFilter();
+    filter.type = filterType;
+    filter.frequency.value = freq;
+    filter.Q.value = q;
+    const gain = ctx.createGain();
+    gain.gain.value = level;
+    src.connect(filter).connect(gain).connect(out);
+    src.start(0, rand(0, NOISE_SECONDS));
+    nodes.push(src, drift(ctx, gain.gain, swellRate, level * 0.4), drift(ctx, filter.frequency, swellRate / 2, freq * 0.15));
+  };
+  layer("bandpass", 650, 0.8, 0.09, 0.11); // crowd
+  layer("bandpass", 1800, 1.5, 0.025, 0.07); // chatter up close
+  layer("lowpass", 400, 0.5, 0.04, 0.05); // wind
+  layer("lowpass", 110, 1.2, 0.16, 0.5); // stage
+
+  return () => nodes.forEach((n) => n.stop());
+}
@@ -0,0 +1,46 @@
+/** ------------ Spatial keyboard navigation (arrow keys between scattered items) ------------ */
+
+export type NavPoint = { id: string; x: number; y: number };
+export type NavDirection = "left" | "right" | "up" | "down";
+
+const UNIT: Record<NavDirection, [number, number]> = {
+  left: [-1, 0],
+  right: [1, 0],
+  up: [0, -1],
+  down: [0, 1],
+};
+
+/** Sideways distance counts this much more than distance along the arrow, so "right" prefers items level with you. */
+const ACROSS_WEIGHT = 2;
+
+/** Rows top to bottom (centers within `rowPx` of the row's first item), left to right inside a row. */
+export function readingOrder(points: NavPoint[], rowPx: number): NavPoint[] {
+  const byY = [...points].sort((a, b) => a.y - b.y);
+  const rows: NavPoint[][] = [];
+  for (const p of byY) {
+    const row = rows[rows.length - 1];
+    if (row && p.y - row[0].y < rowPx) row.push(p);
+    else rows.push([p]);
+  }
+  return rows.flatMap((row) => row.sort((a, b) => a.x - b.x));
+}
+
+/** Closest item in the arrow's half-plane, or null at the edge of the scene. */
+export function nearestInDirection(from: NavPoint, points: NavPoint[], dir: NavDirection): string | null {
+  const [ux, uy] = UNIT[dir];
+  let best: string | null = null;
+  let bestScore = Infinity;
+  for (const p of points) {
+    if (p.id === from.id) continue;
+    const dx = p.x - from.x;
+    const dy = p.y - from.y;
+    const along = dx * ux + dy * uy;
+    if (along <= 1) continue;
+    const score = along + ACROSS_WEIGHT * Math.abs(dx * uy - dy * ux);
+    if (score < bestScore) {
+      bestScore = score;
+      best = p.id;
+    }
+  }
+  return best;
+}
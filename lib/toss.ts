@@ -0,0 +1,115 @@
+import { buildGrid, centerBounds, collisionBox, gridCellSize, obbOverlap, type PlacedPx } from "./layout";
+
+/** ------------ Toss physics (drag, flick, bump) ------------ */
+
+export type Velocity = { vx: number; vy: number };
+
+export type TossWorld = {
+  /** Current positions; mutated in place */
+  bodies: PlacedPx[];
+  /** px/s; bodies without an entry are at rest */
+  vel: Map<string, Velocity>;
+  /** Held by the pointer: pushes others with its velocity but is never moved itself */
+  pinned: string | null;
+};
+
+const FRICTION = 3.2;        // 1/s, exponential slow-down while sliding
+const REST_SPEED = 12;       // px/s, slower than this and a body stops
+const RESTITUTION = 0.35;    // how bouncy item-item bumps are
+const WALL_BOUNCE = 0.4;     // velocity kept when hitting a viewport edge
+const VISIBLE_FRAC = 0.6;    // tossed items may slide partly off-screen, never further
+
+/** Heavier items (by visible area) get shoved less. */
+const inverseMass = (p: PlacedPx, pinned: string | null) => {
+  if (p.id === pinned) return 0;
+  const b = collisionBox(p);
+  return 1 / Math.max(1, b.hw * b.hh);
+};
+
+/**
+ * Advance the world by dt seconds: slide with friction, bump with the same
+ * hitboxes + padding the layout engine uses, and bounce off viewport edges.
+ * Returns true while anything still moves, is held, or had to be separated.
+ */
+export function tossStep(world: TossWorld, dt: number, vw: number, vh: number, paddingPx: number): boolean {
+  const { bodies, vel, pinned } = world;
+  const byId = new Map(bodies.map((b) => [b.id, b]));
+
+  // integrate + friction
+  const damp = Math.exp(-FRICTION * dt);
+  vel.forEach((v, id) => {
+    const b = byId.get(id);
+    if (!b || id === pinned) return;
+    b.cx += v.vx * dt;
+    b.cy += v.vy * dt;
+    v.vx *= damp;
+    v.vy *= damp;
+  });
+
+  // separate overlaps + exchange momentum along the contact normal
+  let separated = false;
+  const boxes = bodies.map(collisionBox);
+  // Same grid broad phase as the layout engine, over where the bodies are after integrating
+  const neighbours = buildGrid(boxes, gridCellSize(bodies, paddingPx));
+  for (let i = 0; i < bodies.length; i++) {
+    neighbours(boxes[i], (j) => {
+      if (j <= i) return;
+      const hit = obbOverlap(boxes[i], boxes[j], paddingPx);
+      if (!hit) return;
+      const a = bodies[i];
+      const b = bodies[j];
+      const invA = inverseMass(a, pinned);
+      const invB = inverseMass(b, pinned);
+      const sum = invA + invB;
+      if (sum === 0) return;
+
+      const push = hit.depth + 0.25;
+      a.cx -= hit.nx * push * (invA / sum);
+      a.cy -= hit.ny * push * (invA / sum);
+      b.cx += hit.nx * push * (invB / sum);
+      b.cy += hit.ny * push * (invB / sum);
+
+      const va = vel.get(a.id) ?? { vx: 0, vy: 0 };
+      const vb = vel.get(b.id) ?? { vx: 0, vy: 0 };
+      const closing = (vb.vx - va.vx) * hit.nx + (vb.vy - va.vy) * hit.ny;
+      if (closing < 0) {
+        const impulse = (-(1 + RESTITUTION) * closing) / sum;
+        va.vx -= impulse * invA * hit.nx;
+        va.vy -= impulse * invA * hit.ny;
+        vb.vx += impulse * invB * hit.nx;
+        vb.vy += impulse * invB * hit.ny;
+      }
+      if (a.id !== pinned) vel.set(a.id, va);
+      if (b.id !== pinned) vel.set(b.id, vb);
+
+      boxes[i] = collisionBox(a);
+      boxes[j] = collisionBox(b);
+      separated = true;
+    });
+  }
+
+  // viewport edges
+  for (const b of bodies) {
+    if (b.id === pinned) continue;
+    const lim = centerBounds(b, { minX: 0, maxX: vw, minY: 0, maxY: vh }, VISIBLE_FRAC);
+    const v = vel.get(b.id);
+    if (b.cx < lim.minX || b.cx > lim.maxX) {
+      b.cx = Math.max(lim.minX, Math.min(lim.maxX, b.cx));
+      if (v) v.vx = -v.vx * WALL_BOUNCE;
+    }
+    if (b.cy < lim.minY || b.cy > lim.maxY) {
+      b.cy = Math.max(lim.minY, Math.min(lim.maxY, b.cy));
+      if (v) v.vy = -v.vy * WALL_BOUNCE;
+    }
+  }
+
+  // come to rest
+  let sliding = false;
+  vel.forEach((v, id) => {
+    if (id === pinned) return;
+    if (Math.hypot(v.vx, v.vy) < REST_SPEED) vel.delete(id);
+    else sliding = true;
+  });
+
+  return separated || sliding || pinned != null;
+}
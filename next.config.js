@@ -1,7 +1,23 @@
+const { existsSync } = require("node:fs");
+const { join } = require("node:path");
+const IMAGE_VARIANTS = require("./lib/image-variants.json");
+
+// Images whose resized files are all in public/images-resized (see scripts/image-variants.mjs).
+// `next dev` / `next build` run without the predev / prebuild hook find none there, and
+// lib/images.ts then leaves out the <source>s instead of pointing them at missing files.
+const variantsOnDisk = Object.keys(IMAGE_VARIANTS).filter((src) =>
+  IMAGE_VARIANTS[src].widths.every((w) =>
+    ["avif", "webp"].every((format) =>
+      existsSync(join(__dirname, "public/images-resized", `${src.replace(/^\/images\//, "").replace(/\.[^.]+$/, "")}-${w}.${format}`))
+    )
+  )
+);
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
   images: { unoptimized: true },
   output: "export",
+  env: { IMAGE_VARIANTS_ON_DISK: variantsOnDisk.join(",") },
 };
 module.exports = nextConfig;
@@ -0,0 +1,39 @@
+// Stands in for an analytics endpoint during development: prints every event the
+// beacon sink sends and keeps them in memory (GET /events lists them).
+//   npm run analytics:stub
+//   NEXT_PUBLIC_ANALYTICS=beacon NEXT_PUBLIC_ANALYTICS_ENDPOINT=http://localhost:8787/collect npm run dev
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.PORT ?? 8787);
+const MAX_BODY = 16 * 1024;
+const events = [];
+
+const cors = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+createServer((req, res) => {
+  if (req.method === "OPTIONS") return res.writeHead(204, cors).end();
+  if (req.method === "GET" && req.url === "/events") {
+    return res.writeHead(200, { ...cors, "Content-Type": "application/json" }).end(JSON.stringify(events, null, 2));
+  }
+  if (req.method !== "POST" || req.url !== "/collect") return res.writeHead(404, cors).end();
+
+  let body = "";
+  req.on("data", (chunk) => {
+    body += chunk;
+    if (body.length > MAX_BODY) req.destroy();
+  });
+  req.on("end", () => {
+    try {
+      const event = JSON.parse(body);
+      events.push(event);
+      console.log(`${event.at} ${event.session} ${event.type}`, JSON.stringify(event));
+      res.writeHead(204, cors).end();
+    } catch {
+      res.writeHead(400, cors).end();
+    }
+  });
+}).listen(PORT, () => console.log(`analytics stub listening on http://localhost:${PORT}/collect`));
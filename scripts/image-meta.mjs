@@ -0,0 +1,127 @@
+// Measures every image in public/images and writes lib/image-meta.json:
+//   { "/images/cup.png": { w, h, opaque: [x0, y0, x1, y1] } }
+// `opaque` is the alpha bounding box as fractions of the image, so the layout
+// engine can collide what you actually see instead of transparent padding.
+// The manifest is committed: `npm run images` rewrites it after images change. With --check
+// (before every dev and build, see package.json) it only fails when the file is out of date.
+import { existsSync, readFileSync, readdirSync, writeFileSync } from "node:fs";
+import { join, sep } from "node:path";
+import { fileURLToPath } from "node:url";
+import { inflateSync } from "node:zlib";
+
+const ROOT = fileURLToPath(new URL("..", import.meta.url));
+const IMAGES_DIR = join(ROOT, "public/images");
+const OUT = join(ROOT, "lib/image-meta.json");
+const ALPHA_THRESHOLD = 24;
+
+const round = (n) => Math.round(n * 1000) / 1000;
+
+function pngInfo(buf) {
+  let i = 8;
+  let header;
+  const idat = [];
+  while (i < buf.length) {
+    const len = buf.readUInt32BE(i);
+    const type = buf.toString("latin1", i + 4, i + 8);
+    const data = buf.subarray(i + 8, i + 8 + len);
+    if (type === "IHDR") {
+      header = { w: data.readUInt32BE(0), h: data.readUInt32BE(4), depth: data[8], color: data[9], interlace: data[12] };
+    } else if (type === "IDAT") idat.push(data);
+    i += 12 + len;
+  }
+  const { w, h, depth, color, interlace } = header;
+  // Only 8-bit RGBA, non-interlaced carries alpha we can cheaply read; anything else counts as fully opaque.
+  if (color !== 6 || depth !== 8 || interlace) return { w, h, opaque: [0, 0, 1, 1] };
+
+  const raw = inflateSync(Buffer.concat(idat));
+  const bpp = 4;
+  const stride = w * bpp;
+  let prev = new Uint8Array(stride);
+  let line = new Uint8Array(stride);
+  let minX = w, minY = h, maxX = -1, maxY = -1;
+
+  for (let y = 0, p = 0; y < h; y++) {
+    const filter = raw[p++];
+    for (let x = 0; x < stride; x++) {
+      const left = x >= bpp ? line[x - bpp] : 0;
+      const up = prev[x];
+      const upLeft = x >= bpp ? prev[x - bpp] : 0;
+      let pred = 0;
+      if (filter === 1) pred = left;
+      else if (filter === 2) pred = up;
+      else if (filter === 3) pred = (left + up) >> 1;
+      else if (filter === 4) {
+        const pa = Math.abs(up - upLeft), pb = Math.abs(left - upLeft), pc = Math.abs(left + up - 2 * upLeft);
+        pred = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+      }
+      line[x] = (raw[p++] + pred) & 0xff;
+    }
+    for (let x = 0; x < w; x++) {
+      if (line[x * 4 + 3] > ALPHA_THRESHOLD) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        maxY = y;
+      }
+    }
+    [prev, line] = [line, prev];
+  }
+
+  if (maxX < 0) return { w, h, opaque: [0, 0, 1, 1] };
+  return { w, h, opaque: [round(minX / w), round(minY / h), round((maxX + 1) / w), round((maxY + 1) / h)] };
+}
+
+function jpegInfo(buf) {
+  let i = 2;
+  while (i < buf.length) {
+    const marker = buf[i + 1];
+    const len = buf.readUInt16BE(i + 2);
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return { w: buf.readUInt16BE(i + 7), h: buf.readUInt16BE(i + 5), opaque: [0, 0, 1, 1] };
+    }
+    i += 2 + len;
+  }
+  throw new Error("no SOF marker");
+}
+
+function webpInfo(buf) {
+  const chunk = buf.toString("latin1", 12, 16);
+  if (chunk === "VP8X") return { w: buf.readUIntLE(24, 3) + 1, h: buf.readUIntLE(27, 3) + 1, opaque: [0, 0, 1, 1] };
+  if (chunk === "VP8 ") return { w: buf.readUInt16LE(26) & 0x3fff, h: buf.readUInt16LE(28) & 0x3fff, opaque: [0, 0, 1, 1] };
+  if (chunk === "VP8L") {
+    const bits = buf.readUInt32LE(21);
+    return { w: (bits & 0x3fff) + 1, h: ((bits >> 14) & 0x3fff) + 1, opaque: [0, 0, 1, 1] };
+  }
+  throw new Error(`unknown WebP chunk ${chunk}`);
+}
+
+const readers = { png: pngInfo, jpg: jpegInfo, jpeg: jpegInfo, webp: webpInfo };
+
+// Recursive, so shoots can live in their own folders (public/images/gallery/<shoot>/...)
+const files = readdirSync(IMAGES_DIR, { recursive: true }).map(String).sort();
+
+const meta = {};
+for (const file of files) {
+  const ext = file.split(".").pop().toLowerCase();
+  const read = readers[ext];
+  if (!read) continue;
+  try {
+    meta[`/images/${file.split(sep).join("/")}`] = read(readFileSync(join(IMAGES_DIR, file)));
+  } catch (err) {
+    throw new Error(`image-meta: could not read ${file}: ${err.message}`);
+  }
+}
+
+// One image per line keeps diffs readable when images are added
+const body = Object.entries(meta).map(([k, v]) => `  ${JSON.stringify(k)}: ${JSON.stringify(v)}`).join(",\n");
+const json = `{\n${body}\n}\n`;
+if (process.argv.includes("--check")) {
+  if (!existsSync(OUT) || readFileSync(OUT, "utf8") !== json) {
+    console.error("image-meta: lib/image-meta.json is out of date with public/images. Run `npm run images` and commit the result.");
+    process.exit(1);
+  }
+  console.log(`image-meta: lib/image-meta.json is up to date (${Object.keys(meta).length} images)`);
+} else {
+  writeFileSync(OUT, json);
+  console.log(`image-meta: measured ${Object.keys(meta).length} images → lib/image-meta.json`);
+}
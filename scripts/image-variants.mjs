@@ -0,0 +1,82 @@
+// Resizes every image in lib/image-meta.json into AVIF and WebP variants under
+// public/images-resized (gitignored) and writes lib/image-variants.json:
+//   { "/images/cup.png": { widths: [320, 640, 745], placeholder: "data:image/webp;base64,..." } }
+// The placeholder is a 16px-wide WebP, blurred by lib/images.ts when it's drawn.
+// Variants whose file is newer than the source are kept, so only changed images are re-encoded.
+// The manifest is committed and only `npm run images` rewrites it. With --check (before every
+// dev and build, see package.json) the variant files are still encoded, since they're not in
+// git, but the manifest is only compared: a new image or changed size fails the run.
+// next.config.js checks which variants are on disk, so a build that skipped this still serves the originals.
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import sharp from "sharp";
+
+const ROOT = fileURLToPath(new URL("..", import.meta.url));
+const META = JSON.parse(readFileSync(join(ROOT, "lib/image-meta.json"), "utf8"));
+const OUT_DIR = join(ROOT, "public/images-resized");
+const MANIFEST = join(ROOT, "lib/image-variants.json");
+
+// Keep the file naming in sync with variantUrl() in lib/images.ts and next.config.js
+const WIDTHS = [320, 640, 960, 1280, 1920];
+const FORMATS = { avif: 55, webp: 75 }; // encoder quality
+// libaom's default effort takes ~8x as long per AVIF for files within a few percent of the same size
+const AVIF_EFFORT = 2;
+const PLACEHOLDER_W = 16;
+
+/** `buf` re-encoded as `format`, scaled down to `width` unless that's the image's own width. */
+const encode = (buf, width, w, format, quality) => {
+  const img = sharp(buf);
+  if (width < w) img.resize({ width });
+  return img.toFormat(format, format === "avif" ? { quality, effort: AVIF_EFFORT } : { quality }).toBuffer();
+};
+
+/** Variant widths for an image `w` px wide: the standard steps below it, plus its own width. */
+const widthsFor = (w) => [...WIDTHS.filter((x) => x < w * 0.9), w];
+
+const variantFile = (src, w, format) => join(OUT_DIR, `${src.replace(/^\/images\//, "").replace(/\.[^.]+$/, "")}-${w}.${format}`);
+
+const CHECK = process.argv.includes("--check");
+
+const manifest = {};
+let encoded = 0;
+for (const [src, { w }] of Object.entries(META)) {
+  const source = join(ROOT, "public", src);
+  const buf = readFileSync(source);
+  const mtime = statSync(source).mtimeMs;
+  const widths = widthsFor(w);
+
+  for (const width of widths) {
+    for (const [format, quality] of Object.entries(FORMATS)) {
+      const file = variantFile(src, width, format);
+      if (existsSync(file) && statSync(file).mtimeMs >= mtime) continue;
+      mkdirSync(dirname(file), { recursive: true });
+      writeFileSync(file, await encode(buf, width, w, format, quality));
+      encoded++;
+    }
+  }
+
+  if (CHECK) {
+    manifest[src] = { widths };
+    continue;
+  }
+  const tiny = await encode(buf, PLACEHOLDER_W, w, "webp", 50);
+  manifest[src] = { widths, placeholder: `data:image/webp;base64,${tiny.toString("base64")}` };
+}
+
+if (CHECK) {
+  // Placeholder bytes depend on the libvips build, so only the images and their widths are compared
+  const committed = existsSync(MANIFEST) ? JSON.parse(readFileSync(MANIFEST, "utf8")) : {};
+  const stale = [...new Set([...Object.keys(manifest), ...Object.keys(committed)])].filter(
+    (src) => JSON.stringify(manifest[src]?.widths) !== JSON.stringify(committed[src]?.widths)
+  );
+  console.log(`image-variants: ${encoded} variants encoded → public/images-resized`);
+  if (stale.length) {
+    console.error(`image-variants: lib/image-variants.json is out of date for ${stale.join(", ")}. Run \`npm run images\` and commit the result.`);
+    process.exit(1);
+  }
+} else {
+  const lines = Object.entries(manifest).map(([src, v]) => `  ${JSON.stringify(src)}: ${JSON.stringify(v)}`);
+  writeFileSync(MANIFEST, `{\n${lines.join(",\n")}\n}\n`);
+  console.log(`image-variants: ${Object.keys(manifest).length} images, ${encoded} variants encoded → public/images-resized`);
+}
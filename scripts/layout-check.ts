@@ -0,0 +1,82 @@
+// Sweeps the ground layout over a matrix of viewport sizes and seeds and runs
+// checkLayoutPx on every result: fresh layouts, and layouts adapted from a
+// desktop anchor the way a resize adapts them in the browser. Then a crowd: the
+// scene repeated to 60 items on a phone, which must hold up too and settle
+// within a frame.
+// Prints each violation and exits non-zero if there are any.
+//   npm run layout:check
+//   npm run layout:check -- --seeds 50
+import { adaptLayoutPx, checkLayoutPx, generateNonOverlappingLayoutPx, type LayoutViolation } from "../lib/layout";
+import { GROUND_LAYOUT_OPTS, groundSpecs } from "../lib/ground-layout";
+import { SCENE } from "../lib/scene-manifest";
+import { EVENTS } from "../lib/event-list";
+import { withEventFliers } from "../lib/events";
+import { createRng } from "../lib/random";
+
+const VIEWPORTS: [number, number][] = [
+  [320, 568], [360, 640], [375, 667], [390, 844], [412, 915], [430, 932], // phones, portrait
+  [568, 320], [667, 375], [844, 390], [932, 430],                         // phones, landscape
+  [768, 1024], [820, 1180], [1024, 768], [1180, 820],                     // tablets
+  [1280, 720], [1366, 768], [1440, 900], [1536, 864], [1920, 1080], [2560, 1440],
+];
+const ANCHOR: [number, number] = [1440, 900];
+
+const seedsArg = process.argv.indexOf("--seeds");
+const SEED_COUNT = seedsArg > 0 ? Number(process.argv[seedsArg + 1]) : 20;
+const seeds = Array.from({ length: SEED_COUNT }, (_, i) => `check-${i}`);
+
+const scene = withEventFliers(SCENE, EVENTS, Date.now());
+
+const describe = (v: LayoutViolation) =>
+  v.kind === "overlap" ? `${v.ids[0]} overlaps ${v.ids[1]} by ${v.depth.toFixed(1)}px` : `${v.id} is ${v.byPx.toFixed(1)}px off its area`;
+
+let runs = 0;
+let failed = 0;
+const check = (label: string, run: () => ReturnType<typeof checkLayoutPx>) => {
+  runs++;
+  const violations = run();
+  if (!violations.length) return;
+  failed++;
+  console.log(`✗ ${label}`);
+  for (const v of violations) console.log(`    ${describe(v)}`);
+};
+
+const anchorSpecs = groundSpecs(scene, ...ANCHOR);
+for (const seed of seeds) {
+  const anchor = generateNonOverlappingLayoutPx(anchorSpecs, ...ANCHOR, createRng(seed), GROUND_LAYOUT_OPTS);
+  for (const [w, h] of VIEWPORTS) {
+    const specs = groundSpecs(scene, w, h);
+    check(`${w}x${h} seed=${seed}`, () =>
+      checkLayoutPx(generateNonOverlappingLayoutPx(specs, w, h, createRng(seed), GROUND_LAYOUT_OPTS), specs, w, h, GROUND_LAYOUT_OPTS)
+    );
+    check(`${ANCHOR.join("x")} → ${w}x${h} seed=${seed}`, () =>
+      checkLayoutPx(adaptLayoutPx(anchor, { w: ANCHOR[0], h: ANCHOR[1] }, specs, w, h, createRng(seed), GROUND_LAYOUT_OPTS), specs, w, h, GROUND_LAYOUT_OPTS)
+    );
+  }
+}
+
+const CROWD = 60;
+const CROWD_VIEWPORT: [number, number] = [390, 844];
+const FRAME_MS = 16;
+
+const phoneSpecs = groundSpecs(scene, ...CROWD_VIEWPORT);
+const crowd = Array.from({ length: CROWD }, (_, i) => ({ ...phoneSpecs[i % phoneSpecs.length], id: `${phoneSpecs[i % phoneSpecs.length].id}-${i}` }));
+const times: number[] = [];
+for (const seed of seeds) {
+  check(`${CROWD} items at ${CROWD_VIEWPORT.join("x")} seed=${seed}`, () => {
+    const start = performance.now();
+    const placed = generateNonOverlappingLayoutPx(crowd, ...CROWD_VIEWPORT, createRng(seed), GROUND_LAYOUT_OPTS);
+    times.push(performance.now() - start);
+    return checkLayoutPx(placed, crowd, ...CROWD_VIEWPORT, GROUND_LAYOUT_OPTS);
+  });
+}
+// Median, so one slow GC pause doesn't fail the sweep
+const median = [...times].sort((a, b) => a - b)[Math.floor(times.length / 2)];
+runs++;
+if (median > FRAME_MS) {
+  failed++;
+  console.log(`✗ ${CROWD} items at ${CROWD_VIEWPORT.join("x")} take ${median.toFixed(1)}ms (median), more than a ${FRAME_MS}ms frame`);
+}
+
+console.log(`${runs - failed}/${runs} layouts hold up (${VIEWPORTS.length} viewports × ${seeds.length} seeds, fresh and adapted, plus ${CROWD} items at ${CROWD_VIEWPORT.join("x")} in ${median.toFixed(1)}ms)`);
+if (failed) process.exit(1);